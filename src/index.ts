@@ -1,19 +1,75 @@
 import { getMbusDevice, MBUS_DEVICE_IDS } from './util/mbus.js';
-import { ENCRYPTED_DLMS_DEFAULT_AAD } from './protocols/encryption.js';
+import {
+  ENCRYPTED_DLMS_DEFAULT_AAD,
+  ENCRYPTED_DLMS_DEFAULT_AUTHENTICATION_KEY,
+} from './protocols/encryption.js';
 import { DsmrParserResult } from './protocols/dsmr.js';
 import { HdlcParserResult } from './protocols/hdlc.js';
+import { MbusParserResult } from './protocols/mbus.js';
 
-export type SmartMeterParserResult = DsmrParserResult | HdlcParserResult;
+export type SmartMeterParserResult = DsmrParserResult | HdlcParserResult | MbusParserResult;
 
 export * from './util/errors.js';
+export type {
+  CosemObject,
+  CrcPolicy,
+  DisconnectControlState,
+  EncryptionInfo,
+  MbusReading,
+  ParserDiagnostic,
+} from './util/base-result.js';
+export { SmartMeterReplayGuard } from './util/replay-guard.js';
+export type { FrameCounterStore } from './util/replay-guard.js';
+export { SmartMeterKeyRing } from './util/key-ring.js';
+export type { KeyRingEntry, KeyRingLookup } from './util/key-ring.js';
+
+export { buildDsmrTelegram } from './protocols/dsmr.js';
+export type { DsmrTelegramBuilderOptions, DsmrTelegramObject } from './protocols/dsmr.js';
+export { CosemLibrary, createCosemLibrary } from './protocols/cosem.js';
+export type { CosemLibraryInstance } from './protocols/cosem.js';
+export { buildDlmsTelegram } from './protocols/dlms.js';
+export type { DlmsTelegramBuilderOptions } from './protocols/dlms.js';
+export type { DlmsParserResult } from './protocols/dlms.js';
+export type { ParsedDlmsData } from './protocols/dlms-datatype.js';
+export { DlmsPayloads, createDlmsPayloads } from './protocols/dlms-payload/dlms-payloads.js';
+export type { DlmsPayloadsInstance } from './protocols/dlms-payload/dlms-payloads.js';
+export { makeDlmsPayload, parseDlmsCosem } from './protocols/dlms-payload/dlms-payload.js';
+export type { DlmsPayload, DlmsPayloadOptions } from './protocols/dlms-payload/dlms-payload.js';
+export { makeIskraDlmsPayload } from './protocols/dlms-payload/BaseIskraList.js';
 
 export const DSMR = {
   MBUS_DEVICE_IDS,
   getMbusDevice,
   ENCRYPTION_DEFAULT_AAD: ENCRYPTED_DLMS_DEFAULT_AAD,
+  ENCRYPTION_DEFAULT_AUTHENTICATION_KEY: ENCRYPTED_DLMS_DEFAULT_AUTHENTICATION_KEY,
 } as const;
 
+export type { SmartMeterBufferStats } from './stream/stream.js';
 export { EncryptedDSMRStreamParser } from './stream/stream-encrypted-dsmr.js';
 export { UnencryptedDSMRStreamParser } from './stream/stream-unencrypted-dsmr.js';
 export { DlmsStreamParser } from './stream/stream-dlms.js';
+export { MbusStreamParser } from './stream/stream-mbus.js';
 export { SmartMeterDetectTypeStream } from './stream/stream-detect-type.js';
+export {
+  parseSmartMeterStream,
+  nextTelegram,
+  SmartMeterTelegramIterator,
+} from './stream/stream-async.js';
+export type { ParseSmartMeterStreamOptions, SmartMeterTelegram } from './stream/stream-async.js';
+export {
+  createDlmsTransform,
+  createDsmrTransform,
+  createMbusTransform,
+  SmartMeterTransform,
+} from './stream/stream-transform.js';
+export type { SmartMeterTransformOptions } from './stream/stream-transform.js';
+export { AutoSmartMeterStreamParser } from './stream/stream-auto.js';
+export type {
+  AutoSmartMeterStreamParserOptions,
+  SmartMeterModeChange,
+} from './stream/stream-auto.js';
+export { createSmartMeterStreamParser } from './stream/stream-factory.js';
+export type {
+  SmartMeterParserMode,
+  SmartMeterStreamParserOptions,
+} from './stream/stream-factory.js';
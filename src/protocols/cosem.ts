@@ -4,12 +4,22 @@
  * type of data being transmitted, and are used in the P1 port of smart meters.
  */
 
-import { SmartMeterParserResult } from '../index.js';
+import { BaseParserResult, DisconnectControlState, MbusReading } from '../util/base-result.js';
+import { decodeCosemDateTime, decodeCosemTimestamp } from './dlms-datetime.js';
+import {
+  applyDlmsScaler,
+  getDlmsNumberValue,
+  isDlmsStructureLike,
+  ParsedDlmsData,
+} from './dlms-datatype.js';
+import { localTimeToDate } from '../util/timezone.js';
 import {
   isEqualObisCode,
   ObisCode,
   ObisCodeString,
   ObisCodeWildcard,
+  obisCodeToString,
+  parseObisCodeFromString,
   parseObisCodeWithWildcards,
 } from './obis-code.js';
 
@@ -17,17 +27,20 @@ type ParameterTypes = 'number' | 'string' | 'raw' | 'octet_string';
 
 export type DlmsCosemParameters = {
   useDefaultScalar?: boolean;
+  /** The data of structured values (e.g. the buffer of a profile generic object) */
+  data?: ParsedDlmsData;
 };
 
 export type DsmrCosemParameters = {
   line: string; // The current line being parsed
   lines: string[]; // All lines in the telegram
   lineNumber: number; // The current line number
+  timezone?: string; // IANA timezone of the timestamps, when not set they are parsed as UTC
 };
 
 type BaseCallback<T extends object> = (
   opts: {
-    result: SmartMeterParserResult;
+    result: BaseParserResult;
     obisCode: ObisCode;
     dlms?: DlmsCosemParameters;
     dsmr?: DsmrCosemParameters;
@@ -62,7 +75,7 @@ type Callback<T extends ParameterTypes> = T extends 'number'
         ? CallbackOctetString
         : never;
 
-class CosemLibraryInternal {
+export class CosemLibraryInternal {
   lib: (
     | {
         obisCode: ObisCodeWildcard;
@@ -138,34 +151,204 @@ class CosemLibraryInternal {
     return this;
   }
 
+  /**
+   * Returns the parser for the OBIS code. Parsers that are added later take precedence, so parsers
+   * of an extended library can override the existing ones.
+   */
   getParser(obisCode: ObisCode) {
-    return this.lib.find((item) => isEqualObisCode(item.obisCode, obisCode));
+    return this.lib.findLast((item) => isEqualObisCode(item.obisCode, obisCode));
+  }
+
+  /** Creates a new library that contains all parsers of this library. */
+  extend() {
+    const library = new CosemLibraryInternal();
+    library.lib = [...this.lib];
+    return library;
   }
 }
 
-const parseTimeStamp = (value: string): Date | string => {
+export type CosemLibraryInstance = CosemLibraryInternal;
+
+/**
+ * Creates an empty COSEM library. Use `CosemLibrary.extend()` to start with all the OBIS codes that
+ * are supported by default.
+ */
+export const createCosemLibrary = () => new CosemLibraryInternal();
+
+/**
+ * Parses a DSMR timestamp, when a timezone is given the timestamp is interpreted as local time in
+ * that timezone. Otherwise it is interpreted as UTC. Invalid timestamps are only returned raw.
+ */
+const parseTimeStamp = (
+  value: string,
+  timezone?: string,
+): { timestamp?: Date; timestampRaw: string; timestampDst?: boolean } => {
   // YYMMDDhhmmssX used in DSMR P1 telegrams
   // X = 'W' for winter time, 'S' for summer time
   const match = /^(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})([WS]?)$/.exec(value);
-  if (match) {
-    const year = parseInt(match[1], 10) + 2000; // DSMR uses YY, so we add 2000
-    const month = parseInt(match[2], 10);
-    const day = parseInt(match[3], 10);
-    const hour = parseInt(match[4], 10);
-    const minute = parseInt(match[5], 10);
-    const second = parseInt(match[6], 10);
-    return new Date(Date.UTC(year, month - 1, day, hour, minute, second));
+  if (!match) {
+    return { timestampRaw: value };
   }
 
-  return value;
+  const year = parseInt(match[1], 10) + 2000; // DSMR uses YY, so we add 2000
+  const month = parseInt(match[2], 10);
+  const day = parseInt(match[3], 10);
+  const hour = parseInt(match[4], 10);
+  const minute = parseInt(match[5], 10);
+  const second = parseInt(match[6], 10);
+  const timestampDst = match[7] ? match[7] === 'S' : undefined;
+  const localTimestamp = Date.UTC(year, month - 1, day, hour, minute, second);
+
+  return {
+    timestamp: timezone
+      ? localTimeToDate(localTimestamp, timezone, timestampDst)
+      : new Date(localTimestamp),
+    timestampRaw: value,
+    ...(timestampDst !== undefined && { timestampDst }),
+  };
+};
+
+/**
+ * Parses a DSMR power value like `02.589*kW` to W.
+ *
+ * @returns Null when the value isn't a number.
+ */
+const parseDemandValue = (value: string) => {
+  const match = /^([\d.]+)(?:\*(\w+))?$/.exec(value);
+
+  if (!match) return null;
+
+  const power = parseFloat(match[1]);
+
+  return match[2]?.toLowerCase() === 'kw' ? power * 1000 : power;
+};
+
+/**
+ * Scalers of DLMS values that are sent without a scaler (e.g. in a BasicList). These values are
+ * sent in a smaller unit to give more precision without using floats.
+ */
+const DLMS_DEFAULT_SCALERS = (
+  [
+    // Voltages in dV
+    ['1-*:32.7.0', -1],
+    ['1-*:52.7.0', -1],
+    ['1-*:72.7.0', -1],
+    // Currents in 10 mA
+    ['1-*:31.7.0', -2],
+    ['1-*:51.7.0', -2],
+    ['1-*:71.7.0', -2],
+    // Frequency in 10 mHz
+    ['1-*:14.7.0', -2],
+    // Power factors in thousandths
+    ['1-*:13.7.0', -3],
+    ['1-*:33.7.0', -3],
+    ['1-*:53.7.0', -3],
+    ['1-*:73.7.0', -3],
+  ] as const
+).map(([identifier, scaler]) => ({
+  obisCode: parseObisCodeWithWildcards(identifier).obisCode!,
+  scaler,
+}));
+
+/** Returns the scaler that is applied to a DLMS value without a scaler, null if there is none. */
+export const getDlmsDefaultScaler = (obisCode: ObisCode) => {
+  return (
+    DLMS_DEFAULT_SCALERS.find((item) => isEqualObisCode(item.obisCode, obisCode))?.scaler ?? null
+  );
+};
+
+/** Applies the default scaler of the OBIS code when the DLMS value was sent without a scaler. */
+const applyDlmsDefaultScaler = (
+  valueNumber: number,
+  obisCode: ObisCode,
+  dlms?: DlmsCosemParameters,
+) => {
+  return dlms?.useDefaultScalar
+    ? applyDlmsScaler(valueNumber, getDlmsDefaultScaler(obisCode))
+    : valueNumber;
+};
+
+/**
+ * Reactive energy and power are normalised to kvarh and kvar. Values without a unit (e.g. of DLMS
+ * lists) are in varh and var.
+ */
+const toKiloVar = (value: number, unit: string | null) => {
+  return unit?.toLowerCase().startsWith('k') ? value : value / 1000;
+};
+
+const parseReactivePower = (
+  direction: 'reactivePowerReceived' | 'reactivePowerReturned',
+  phase: 'l1' | 'l2' | 'l3',
+): CallbackNumber => {
+  return ({ valueNumber, unit, result }) => {
+    result.electricity[direction] = result.electricity[direction] ?? {};
+    result.electricity[direction][phase] = toKiloVar(valueNumber, unit);
+  };
+};
+
+const parsePowerFactor = (phase: 'total' | 'l1' | 'l2' | 'l3'): CallbackNumber => {
+  return ({ valueNumber, obisCode, result, dlms }) => {
+    result.powerQuality = result.powerQuality ?? {};
+    result.powerQuality.powerFactor = result.powerQuality.powerFactor ?? {};
+    result.powerQuality.powerFactor[phase] = applyDlmsDefaultScaler(valueNumber, obisCode, dlms);
+  };
+};
+
+/**
+ * Adds a reading of a channel (value group E) of an M-Bus device. The primary reading is also used
+ * as the value of the device itself, for backwards compatibility. This is the reading of channel 1
+ * or, when the device doesn't send it, the reading of the lowest channel.
+ */
+const addMbusReading = (
+  result: BaseParserResult,
+  busId: number,
+  channel: number,
+  reading: MbusReading,
+) => {
+  const device = (result.mBus[busId] = result.mBus[busId] ?? {});
+  const channels = Object.keys(device.channels ?? {}).map(Number);
+
+  const isPrimary =
+    channel === 1 || (!channels.includes(1) && channels.every((other) => channel < other));
+
+  if (isPrimary) {
+    // Replace the reading of another channel entirely, its timestamp or unit might not be sent now.
+    delete device.unit;
+    delete device.timestamp;
+    delete device.timestampRaw;
+    delete device.timestampDst;
+    Object.assign(device, reading);
+  }
+
+  device.channels = device.channels ?? {};
+  device.channels[channel] = reading;
+};
+
+const DISCONNECT_CONTROL_STATES: Record<number, DisconnectControlState> = {
+  0: 'disconnected',
+  1: 'connected',
+  2: 'ready-for-reconnection',
 };
 
 export const CosemLibrary = new CosemLibraryInternal()
   .addNumberParser('1-3:0.2.8', ({ valueNumber, result }) => {
     result.metadata.dsmrVersion = valueNumber / 10;
   })
-  .addStringParser('0-0:1.0.0', ({ valueString, result }) => {
-    result.metadata.timestamp = parseTimeStamp(valueString);
+  .addStringParser('0-0:1.0.0', ({ valueString, result, dlms, dsmr }) => {
+    if (!dlms) {
+      Object.assign(result.metadata, parseTimeStamp(valueString, dsmr?.timezone));
+      return;
+    }
+
+    // DLMS uses a hex encoded COSEM date-time
+    const timestamp = decodeCosemTimestamp(Buffer.from(valueString, 'hex'));
+
+    if (!timestamp) {
+      result.metadata.timestampRaw = valueString;
+      return;
+    }
+
+    Object.assign(result.metadata, timestamp);
   })
   .addOctetStringParser('0-0:42.0.0', ({ valueBuffer, result }) => {
     result.cosem.id = valueBuffer.toString('utf-8');
@@ -208,6 +391,30 @@ export const CosemLibrary = new CosemLibraryInternal()
       result.electricity.tariffs[tariff].returned = valueNumber;
     }
   })
+  .addNumberParser('1-*:3.8.*', ({ valueNumber, unit, obisCode, result }) => {
+    const tariff = obisCode.processing;
+
+    if (tariff === 0) {
+      result.electricity.total = result.electricity.total ?? {};
+      result.electricity.total.reactiveReceived = toKiloVar(valueNumber, unit);
+    } else {
+      result.electricity.tariffs = result.electricity.tariffs ?? {};
+      result.electricity.tariffs[tariff] = result.electricity.tariffs[tariff] ?? {};
+      result.electricity.tariffs[tariff].reactiveReceived = toKiloVar(valueNumber, unit);
+    }
+  })
+  .addNumberParser('1-*:4.8.*', ({ valueNumber, unit, obisCode, result }) => {
+    const tariff = obisCode.processing;
+
+    if (tariff === 0) {
+      result.electricity.total = result.electricity.total ?? {};
+      result.electricity.total.reactiveReturned = toKiloVar(valueNumber, unit);
+    } else {
+      result.electricity.tariffs = result.electricity.tariffs ?? {};
+      result.electricity.tariffs[tariff] = result.electricity.tariffs[tariff] ?? {};
+      result.electricity.tariffs[tariff].reactiveReturned = toKiloVar(valueNumber, unit);
+    }
+  })
   .addNumberParser('0-0:96.14.0', ({ valueNumber, result }) => {
     result.electricity.currentTariff = valueNumber;
   })
@@ -225,6 +432,12 @@ export const CosemLibrary = new CosemLibraryInternal()
 
     result.electricity.powerReturnedTotal = valueNumber;
   })
+  .addNumberParser('1-*:3.7.0', ({ valueNumber, unit, result }) => {
+    result.electricity.reactivePowerReceivedTotal = toKiloVar(valueNumber, unit);
+  })
+  .addNumberParser('1-*:4.7.0', ({ valueNumber, unit, result }) => {
+    result.electricity.reactivePowerReturnedTotal = toKiloVar(valueNumber, unit);
+  })
   .addNumberParser('0-0:96.7.21', ({ valueNumber, result }) => {
     result.metadata.events = result.metadata.events ?? {};
     result.metadata.events.powerFailures = valueNumber;
@@ -263,59 +476,83 @@ export const CosemLibrary = new CosemLibraryInternal()
     result.metadata.events.voltageSwells = result.metadata.events.voltageSwells ?? {};
     result.metadata.events.voltageSwells.l3 = valueNumber;
   })
+  .addRawParser('1-*:99.97.0', ({ valueString, result, dlms, dsmr }) => {
+    result.metadata.events = result.metadata.events ?? {};
+
+    if (dlms) {
+      // Profile generic buffer: an array of structures with the end of the failure (date-time)
+      // and the duration of the failure in seconds.
+      if (!dlms.data || !isDlmsStructureLike(dlms.data)) return;
+
+      result.metadata.events.powerFailureLog = [];
+
+      for (const entry of dlms.data.value) {
+        if (!isDlmsStructureLike(entry) || entry.value.length < 2) continue;
+
+        const [endRaw, durationRaw] = entry.value;
+        const end = Buffer.isBuffer(endRaw.value) ? decodeCosemDateTime(endRaw.value)?.date : null;
+        const durationSeconds = getDlmsNumberValue(durationRaw);
+
+        if (!end || durationSeconds === null) continue;
+
+        result.metadata.events.powerFailureLog.push({ end, durationSeconds });
+      }
+
+      return;
+    }
+
+    // Result is something like (2)(0-0:96.7.19)(101208152415W)(0000000240*s)(101208151004W)(0000000301*s)
+    const values = [...valueString.matchAll(/\(([^)]*)\)/g)].map((match) => match[1]);
+
+    result.metadata.events.powerFailureLog = [];
+
+    // The first value is the number of entries, the second one the OBIS code of the log.
+    for (let index = 2; index + 1 < values.length; index += 2) {
+      const { timestamp } = parseTimeStamp(values[index], dsmr?.timezone);
+      const durationSeconds = parseFloat(values[index + 1]);
+
+      if (!timestamp || isNaN(durationSeconds)) continue;
+
+      result.metadata.events.powerFailureLog.push({ end: timestamp, durationSeconds });
+    }
+  })
   .addStringParser('0-0:96.13.0', ({ valueString, result }) => {
     result.metadata.textMessage = valueString;
   })
   .addNumberParser('0-0:96.13.1', ({ valueNumber, result }) => {
     result.metadata.numericMessage = valueNumber;
   })
-  .addNumberParser('1-*:32.7.0', ({ valueNumber, result, dlms }) => {
-    // The currents for DLMS (in BasicList/DescribedList) mode are in dV to
-    // give more precision without using floats.
-    if (dlms?.useDefaultScalar) {
-      valueNumber /= 10;
-    }
+  .addNumberParser('1-*:32.7.0', ({ valueNumber, obisCode, result, dlms }) => {
+    valueNumber = applyDlmsDefaultScaler(valueNumber, obisCode, dlms);
 
     result.electricity.voltage = result.electricity.voltage ?? {};
     result.electricity.voltage.l1 = valueNumber;
   })
-  .addNumberParser('1-*:52.7.0', ({ valueNumber, result, dlms }) => {
-    if (dlms?.useDefaultScalar) {
-      valueNumber /= 10;
-    }
+  .addNumberParser('1-*:52.7.0', ({ valueNumber, obisCode, result, dlms }) => {
+    valueNumber = applyDlmsDefaultScaler(valueNumber, obisCode, dlms);
     result.electricity.voltage = result.electricity.voltage ?? {};
     result.electricity.voltage.l2 = valueNumber;
   })
-  .addNumberParser('1-*:72.7.0', ({ valueNumber, result, dlms }) => {
-    if (dlms?.useDefaultScalar) {
-      valueNumber /= 10;
-    }
+  .addNumberParser('1-*:72.7.0', ({ valueNumber, obisCode, result, dlms }) => {
+    valueNumber = applyDlmsDefaultScaler(valueNumber, obisCode, dlms);
 
     result.electricity.voltage = result.electricity.voltage ?? {};
     result.electricity.voltage.l3 = valueNumber;
   })
-  .addNumberParser('1-*:31.7.0', ({ valueNumber, result, dlms }) => {
-    // The currents for DLMS (in BasicList/DescribedList) mode are in 10 mA to
-    // give more precision without using floats.
-    if (dlms?.useDefaultScalar) {
-      valueNumber /= 100;
-    }
+  .addNumberParser('1-*:31.7.0', ({ valueNumber, obisCode, result, dlms }) => {
+    valueNumber = applyDlmsDefaultScaler(valueNumber, obisCode, dlms);
 
     result.electricity.current = result.electricity.current ?? {};
     result.electricity.current.l1 = valueNumber;
   })
-  .addNumberParser('1-*:51.7.0', ({ valueNumber, result, dlms }) => {
-    if (dlms?.useDefaultScalar) {
-      valueNumber /= 100;
-    }
+  .addNumberParser('1-*:51.7.0', ({ valueNumber, obisCode, result, dlms }) => {
+    valueNumber = applyDlmsDefaultScaler(valueNumber, obisCode, dlms);
 
     result.electricity.current = result.electricity.current ?? {};
     result.electricity.current.l2 = valueNumber;
   })
-  .addNumberParser('1-*:71.7.0', ({ valueNumber, result, dlms }) => {
-    if (dlms?.useDefaultScalar) {
-      valueNumber /= 100;
-    }
+  .addNumberParser('1-*:71.7.0', ({ valueNumber, obisCode, result, dlms }) => {
+    valueNumber = applyDlmsDefaultScaler(valueNumber, obisCode, dlms);
 
     result.electricity.current = result.electricity.current ?? {};
     result.electricity.current.l3 = valueNumber;
@@ -368,6 +605,131 @@ export const CosemLibrary = new CosemLibraryInternal()
     result.electricity.powerReturned = result.electricity.powerReturned ?? {};
     result.electricity.powerReturned.l3 = valueNumber;
   })
+  .addNumberParser('1-*:23.7.0', parseReactivePower('reactivePowerReceived', 'l1'))
+  .addNumberParser('1-*:43.7.0', parseReactivePower('reactivePowerReceived', 'l2'))
+  .addNumberParser('1-*:63.7.0', parseReactivePower('reactivePowerReceived', 'l3'))
+  .addNumberParser('1-*:24.7.0', parseReactivePower('reactivePowerReturned', 'l1'))
+  .addNumberParser('1-*:44.7.0', parseReactivePower('reactivePowerReturned', 'l2'))
+  .addNumberParser('1-*:64.7.0', parseReactivePower('reactivePowerReturned', 'l3'))
+  .addNumberParser('1-*:1.4.0', ({ valueNumber, unit, result }) => {
+    if (unit?.toLowerCase() === 'kw') {
+      valueNumber *= 1000;
+    }
+
+    result.demand = result.demand ?? {};
+    result.demand.currentAverage = valueNumber;
+  })
+  .addRawParser('1-*:1.6.0', ({ valueString, result, dsmr }) => {
+    // DLMS sends the time of the peak as a separate attribute, which isn't supported.
+    if (!dsmr) return;
+
+    // Result is something like (200509134558S)(02.589*kW)
+    const match = /^\((\w+)\)\(([^)]+)\)/.exec(valueString);
+    const value = match ? parseDemandValue(match[2]) : null;
+    const timestamp = match ? parseTimeStamp(match[1], dsmr.timezone) : null;
+
+    if (!timestamp?.timestamp || value === null) return;
+
+    result.demand = result.demand ?? {};
+    result.demand.monthPeak = { ...timestamp, timestamp: timestamp.timestamp, value };
+  })
+  .addRawParser('0-*:98.1.0', ({ valueString, result, dsmr }) => {
+    if (!dsmr) return;
+
+    // Result is something like (3)(1-0:1.6.0)(1-0:1.6.0)(200501000000S)(200423192538S)(03.695*kW)...
+    // The first value is the number of entries, followed by the OBIS codes of the columns. Every
+    // entry has the start of the month, the time of the peak and the peak itself.
+    const values = [...valueString.matchAll(/\(([^)]*)\)/g)].map((match) => match[1]);
+
+    result.demand = result.demand ?? {};
+    result.demand.history = [];
+
+    for (let index = 3; index + 2 < values.length; index += 3) {
+      const { timestamp: start } = parseTimeStamp(values[index], dsmr.timezone);
+      const { timestamp } = parseTimeStamp(values[index + 1], dsmr.timezone);
+      const value = parseDemandValue(values[index + 2]);
+
+      if (!start || !timestamp || value === null) continue;
+
+      result.demand.history.push({ start, timestamp, value });
+    }
+  })
+  .addNumberParser('1-*:14.7.0', ({ valueNumber, unit, obisCode, result, dlms }) => {
+    valueNumber = applyDlmsDefaultScaler(valueNumber, obisCode, dlms);
+
+    if (unit?.toLowerCase() === 'khz') {
+      valueNumber *= 1000;
+    }
+
+    result.powerQuality = result.powerQuality ?? {};
+    result.powerQuality.frequency = valueNumber;
+  })
+  .addNumberParser('1-*:13.7.0', parsePowerFactor('total'))
+  .addNumberParser('1-*:33.7.0', parsePowerFactor('l1'))
+  .addNumberParser('1-*:53.7.0', parsePowerFactor('l2'))
+  .addNumberParser('1-*:73.7.0', parsePowerFactor('l3'))
+  .addNumberParser('1-*:9.7.0', ({ valueNumber, unit, obisCode, result, dlms }) => {
+    valueNumber = applyDlmsDefaultScaler(valueNumber, obisCode, dlms);
+
+    if (unit?.toLowerCase() === 'kva') {
+      valueNumber *= 1000;
+    }
+
+    result.powerQuality = result.powerQuality ?? {};
+    result.powerQuality.apparentPowerReceivedTotal = valueNumber;
+  })
+  .addNumberParser('1-*:10.7.0', ({ valueNumber, unit, obisCode, result, dlms }) => {
+    valueNumber = applyDlmsDefaultScaler(valueNumber, obisCode, dlms);
+
+    if (unit?.toLowerCase() === 'kva') {
+      valueNumber *= 1000;
+    }
+
+    result.powerQuality = result.powerQuality ?? {};
+    result.powerQuality.apparentPowerReturnedTotal = valueNumber;
+  })
+  .addNumberParser('1-*:81.7.*', ({ valueNumber, obisCode, result }) => {
+    result.powerQuality = result.powerQuality ?? {};
+    result.powerQuality.phaseAngles = result.powerQuality.phaseAngles ?? {};
+    result.powerQuality.phaseAngles[obisCode.processing] = valueNumber;
+  })
+  .addNumberParser('0-*:96.3.10', ({ valueNumber, obisCode, result }) => {
+    const state = DISCONNECT_CONTROL_STATES[valueNumber];
+
+    if (!state) return;
+
+    // Channel 0 is the breaker of the meter itself, the others belong to the M-Bus devices.
+    if (obisCode.channel === 0) {
+      result.electricity.breakerState = state;
+      return;
+    }
+
+    const busId = obisCode.channel;
+    result.mBus[busId] = result.mBus[busId] ?? {};
+    result.mBus[busId].breakerState = state;
+  })
+  .addNumberParser('0-0:17.0.0', ({ valueNumber, unit, result }) => {
+    const lowerCaseUnit = unit?.toLowerCase();
+
+    if (lowerCaseUnit === 'kw' || lowerCaseUnit === 'kva') {
+      valueNumber *= 1000;
+      unit = unit?.slice(1) ?? null;
+    }
+
+    result.electricity.limiterThreshold = { value: valueNumber, unit };
+  })
+  .addNumberParser('1-*:31.4.0', ({ valueNumber, result }) => {
+    result.electricity.fuseSupervisionThreshold = valueNumber;
+  })
+  .addNumberParser('0-*:24.4.0', ({ valueNumber, obisCode, result }) => {
+    const state = DISCONNECT_CONTROL_STATES[valueNumber];
+
+    if (!state) return;
+
+    const busId = obisCode.channel;
+    result.mBus[busId] = result.mBus[busId] ?? {};
+    result.mBus[busId].valvePosition = state;
+  })
   .addNumberParser('0-*:24.1.0', ({ valueNumber, result, obisCode }) => {
     const busId = obisCode.channel;
     const typeId = valueNumber;
@@ -380,7 +742,22 @@ export const CosemLibrary = new CosemLibraryInternal()
     result.mBus[busId] = result.mBus[busId] ?? {};
     result.mBus[busId].equipmentId = valueString;
   })
-  .addRawParser('0-*:24.2.*', ({ valueString, result, obisCode }) => {
+  .addRawParser('0-*:24.2.*', ({ valueString, result, obisCode, dlms, dsmr }) => {
+    const busId = obisCode.channel;
+    const channel = obisCode.processing;
+
+    if (dlms) {
+      const value = parseFloat(valueString);
+
+      if (isNaN(value)) return;
+
+      // The unit is not passed to raw parsers, but it is known for the COSEM object.
+      const unit = result.cosem.objects[obisCodeToString(obisCode)]?.unit;
+
+      addMbusReading(result, busId, channel, { value, ...(unit && { unit }) });
+      return;
+    }
+
     // Result is something like (101209112500W)(12785.123*m3)
     const match = /^\(([^)]+)\)\(([\d.]+)\*(\w+)?\)/.exec(valueString);
 
@@ -388,15 +765,15 @@ export const CosemLibrary = new CosemLibraryInternal()
       return;
     }
 
-    const busId = obisCode.channel;
     const timestamp = match[1];
     const mbusValue = parseFloat(match[2]);
     const unit = match[3];
 
-    result.mBus[busId] = result.mBus[busId] ?? {};
-    result.mBus[busId].timestamp = parseTimeStamp(timestamp);
-    result.mBus[busId].value = mbusValue;
-    result.mBus[busId].unit = unit;
+    addMbusReading(result, busId, channel, {
+      ...parseTimeStamp(timestamp, dsmr?.timezone),
+      value: mbusValue,
+      unit,
+    });
   })
   // Gas report for DSMR 3 meters.
   // This is a bit off an odd one, as it's a two line parser.
@@ -429,12 +806,14 @@ export const CosemLibrary = new CosemLibraryInternal()
     const busId = obisCode.channel;
     const timestamp = match[1];
     const recordingPeriodMinutes = parseInt(match[3], 10);
+    const channel = parseObisCodeFromString(match[5]).obisCode?.processing ?? 1;
     const unit = match[6];
     const mbusValue = parseFloat(nextLineMatch[1]);
 
-    result.mBus[busId] = result.mBus[busId] ?? {};
-    result.mBus[busId].timestamp = parseTimeStamp(timestamp);
-    result.mBus[busId].value = mbusValue;
-    result.mBus[busId].unit = unit;
+    addMbusReading(result, busId, channel, {
+      ...parseTimeStamp(timestamp, dsmr?.timezone),
+      value: mbusValue,
+      unit,
+    });
     result.mBus[busId].recordingPeriodMinutes = recordingPeriodMinutes;
   });
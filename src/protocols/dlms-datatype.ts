@@ -2,6 +2,7 @@ import { SmartMeterError } from '../util/errors.js';
 import { ObisCode, parseObisCodeFromBuffer } from './obis-code.js';
 
 type DlmsDataTypeDecoder<T> = (index: number, buffer: Buffer) => { value: T; index: number };
+type DlmsDataTypeEncoder<T> = (value: T) => Buffer;
 
 export type DlmsDataTypes = {
   array: ParsedDlmsData[];
@@ -17,6 +18,17 @@ export type DlmsDataTypes = {
   enum: number;
   null: null;
   boolean: number;
+  int64: bigint;
+  uint64: bigint;
+  float32: number;
+  float64: number;
+  bit_string: string; // Bits as a string of '0' and '1' characters, MSB first.
+  bcd: number;
+  utf8_string: string;
+  date: Buffer; // 5 bytes, see the COSEM date format.
+  time: Buffer; // 4 bytes, see the COSEM time format.
+  date_time: Buffer; // 12 bytes, see the COSEM date-time format.
+  compact_array: ParsedDlmsData[];
   missing: 'missing' | `missing:${string}`; // If set to a value, the value shows which data type was expected but not found.
 };
 
@@ -33,13 +45,32 @@ export const isParsedDlmsDataType = <TName extends keyof DlmsDataTypes>(
 };
 
 export const isDlmsStructureLike = (object: ParsedDlmsData) => {
-  return isParsedDlmsDataType('structure', object) || isParsedDlmsDataType('array', object);
+  return (
+    isParsedDlmsDataType('structure', object) ||
+    isParsedDlmsDataType('array', object) ||
+    isParsedDlmsDataType('compact_array', object)
+  );
 };
 
+/** Returns the value of a number type, 64-bit integers that don't fit in a number return null. */
 export const getDlmsNumberValue = (object: ParsedDlmsData) => {
+  if (typeof object.value === 'bigint') {
+    const value = Number(object.value);
+
+    return Number.isSafeInteger(value) ? value : null;
+  }
+
   return typeof object.value === 'number' ? object.value : null;
 };
 
+/** Multiplies the value with 10 to the power of the scaler. */
+export const applyDlmsScaler = (value: number, scaler: number | null) => {
+  if (!scaler) return value;
+
+  // Dividing prevents rounding errors like 0.1 * 3 = 0.30000000000000004
+  return scaler < 0 ? value / Math.pow(10, -scaler) : value * Math.pow(10, scaler);
+};
+
 export const isDlmsObisCode = (object: ParsedDlmsData) => {
   return isParsedDlmsDataType('octet_string', object) && object.value.length === 6;
 };
@@ -77,6 +108,27 @@ export const getDlmsObjectCount = (data: Buffer, index: number) => {
   };
 };
 
+/** Inverse of {@link getDlmsObjectCount} */
+export const encodeDlmsObjectCount = (objectCount: number) => {
+  if (objectCount < 0x80) {
+    return Buffer.from([objectCount]);
+  }
+
+  if (objectCount <= 0xff) {
+    return Buffer.from([0x81, objectCount]);
+  }
+
+  if (objectCount <= 0xffff) {
+    const buffer = Buffer.from([0x82, 0x00, 0x00]);
+    buffer.writeUint16BE(objectCount, 1);
+    return buffer;
+  }
+
+  const buffer = Buffer.from([0x83, 0x00, 0x00, 0x00, 0x00]);
+  buffer.writeUint32BE(objectCount, 1);
+  return buffer;
+};
+
 export type NestedStrings = string | NestedStrings[];
 
 export function debugFriendlyDlmsDataType(object: ParsedDlmsData): NestedStrings {
@@ -101,16 +153,40 @@ class DlmsDataTypesInternal {
     }
   >();
 
+  encoders = new Map<
+    keyof DlmsDataTypes,
+    {
+      id: number;
+      encode: DlmsDataTypeEncoder<DlmsDataTypes[keyof DlmsDataTypes]>;
+    }
+  >();
+
   addDataType<TName extends keyof DlmsDataTypes>(
     name: TName,
     id: number,
     minSize: number,
     parse: DlmsDataTypeDecoder<DlmsDataTypes[TName]>,
+    encode: DlmsDataTypeEncoder<DlmsDataTypes[TName]>,
   ) {
     this.parsers.set(id, { name, parse, minSize });
+    this.encoders.set(name, {
+      id,
+      encode: encode as DlmsDataTypeEncoder<DlmsDataTypes[keyof DlmsDataTypes]>,
+    });
     return this;
   }
 
+  /** Encodes the data (including the tag) into A-XDR, the inverse of {@link parse}. */
+  encode(data: ParsedDlmsData): Buffer {
+    const encoder = this.encoders.get(data.type);
+
+    if (!encoder) {
+      throw new SmartMeterError(`Unable to encode DLMS data type ${data.type}`);
+    }
+
+    return Buffer.concat([Buffer.from([encoder.id]), encoder.encode(data.value)]);
+  }
+
   parse(buffer: Buffer, index: number): ParsedDlmsData & { index: number } {
     if (index >= buffer.length) {
       return {
@@ -167,6 +243,237 @@ const parseStructureOrArray = (index: number, buffer: Buffer) => {
   };
 };
 
+const encodeStructureOrArray = (value: ParsedDlmsData[]): Buffer => {
+  return Buffer.concat([
+    encodeDlmsObjectCount(value.length),
+    ...value.map((item) => DlmsDataTypes.encode(item)),
+  ]);
+};
+
+const encodeNumber = (size: number, write: (buffer: Buffer) => void) => {
+  const buffer = Buffer.alloc(size);
+  write(buffer);
+  return buffer;
+};
+
+const parseFixedLengthBuffer = (length: number) => (index: number, buffer: Buffer) => {
+  return {
+    index: index + length,
+    value: buffer.subarray(index, index + length),
+  };
+};
+
+const encodeFixedLengthBuffer = (length: number) => (value: Buffer) => {
+  if (value.length !== length) {
+    throw new SmartMeterError(`Invalid length ${value.length}, expected ${length} bytes`);
+  }
+
+  return value;
+};
+
+const DLMS_ARRAY_TAG = 0x01;
+const DLMS_STRUCTURE_TAG = 0x02;
+
+/**
+ * The type description of a compact array:
+ *
+ * - Array: tag, number of elements (2 bytes) and the type description of the elements
+ * - Structure: tag, number of elements and the type description of each element
+ * - Others: only the tag
+ */
+type DlmsTypeDescription = {
+  id: number;
+  count?: number;
+  elements?: DlmsTypeDescription[];
+};
+
+const parseTypeDescription = (
+  index: number,
+  buffer: Buffer,
+): { description: DlmsTypeDescription; index: number } => {
+  const id = buffer.readUint8(index++);
+
+  if (id === DLMS_ARRAY_TAG) {
+    const count = buffer.readUint16BE(index);
+    const { description, index: newIndex } = parseTypeDescription(index + 2, buffer);
+    return { description: { id, count, elements: [description] }, index: newIndex };
+  }
+
+  if (id === DLMS_STRUCTURE_TAG) {
+    const { objectCount, newIndex } = getDlmsObjectCount(buffer, index);
+    index = newIndex;
+
+    const elements: DlmsTypeDescription[] = [];
+
+    for (let i = 0; i < objectCount; i++) {
+      const { description, index: newIndex } = parseTypeDescription(index, buffer);
+      index = newIndex;
+      elements.push(description);
+    }
+
+    return { description: { id, elements }, index };
+  }
+
+  return { description: { id }, index };
+};
+
+/** Parses a value without a tag, the type is determined by the type description. */
+const parseWithTypeDescription = (
+  description: DlmsTypeDescription,
+  index: number,
+  buffer: Buffer,
+): ParsedDlmsData & { index: number } => {
+  if (description.id === DLMS_ARRAY_TAG || description.id === DLMS_STRUCTURE_TAG) {
+    const isArray = description.id === DLMS_ARRAY_TAG;
+    const elements = description.elements ?? [];
+    const count = isArray ? (description.count ?? 0) : elements.length;
+    const value: ParsedDlmsData[] = [];
+
+    for (let i = 0; i < count; i++) {
+      const { index: newIndex, ...item } = parseWithTypeDescription(
+        isArray ? elements[0] : elements[i],
+        index,
+        buffer,
+      );
+      index = newIndex;
+      value.push(item);
+    }
+
+    return { value, index, type: isArray ? 'array' : 'structure' };
+  }
+
+  const parser = DlmsDataTypes.parsers.get(description.id);
+
+  if (!parser) {
+    return { value: null, index, type: 'missing' };
+  }
+
+  if (index + parser.minSize > buffer.length) {
+    return { value: `missing:${parser.name}`, index, type: 'missing' };
+  }
+
+  const { value, index: newIndex } = parser.parse(index, buffer);
+
+  return { value, index: newIndex, type: parser.name };
+};
+
+const parseCompactArray = (index: number, buffer: Buffer) => {
+  const { description, index: contentIndex } = parseTypeDescription(index, buffer);
+  const { objectCount: contentLength, newIndex } = getDlmsObjectCount(buffer, contentIndex);
+  index = newIndex;
+
+  const end = index + contentLength;
+  const content = buffer.subarray(0, end);
+  const value: ParsedDlmsData[] = [];
+
+  while (index < end) {
+    const { index: newIndex, ...item } = parseWithTypeDescription(description, index, content);
+
+    // Stop when the contents are incomplete, or when the elements don't have a size.
+    if (item.type === 'missing' || newIndex === index) break;
+
+    index = newIndex;
+    value.push(item);
+  }
+
+  return { value, index: end };
+};
+
+const describeDlmsData = (data: ParsedDlmsData): DlmsTypeDescription => {
+  if (isParsedDlmsDataType('array', data)) {
+    if (data.value.length === 0) {
+      throw new SmartMeterError('Unable to describe an empty array');
+    }
+
+    return {
+      id: DLMS_ARRAY_TAG,
+      count: data.value.length,
+      elements: [describeDlmsData(data.value[0])],
+    };
+  }
+
+  if (isParsedDlmsDataType('structure', data)) {
+    return { id: DLMS_STRUCTURE_TAG, elements: data.value.map(describeDlmsData) };
+  }
+
+  const encoder = DlmsDataTypes.encoders.get(data.type);
+
+  if (!encoder) {
+    throw new SmartMeterError(`Unable to encode DLMS data type ${data.type}`);
+  }
+
+  return { id: encoder.id };
+};
+
+const encodeTypeDescription = (description: DlmsTypeDescription): Buffer => {
+  const elements = (description.elements ?? []).map(encodeTypeDescription);
+
+  if (description.id === DLMS_ARRAY_TAG) {
+    const count = Buffer.alloc(2);
+    count.writeUint16BE(description.count ?? 0);
+    return Buffer.concat([Buffer.from([description.id]), count, ...elements]);
+  }
+
+  if (description.id === DLMS_STRUCTURE_TAG) {
+    return Buffer.concat([
+      Buffer.from([description.id]),
+      encodeDlmsObjectCount(elements.length),
+      ...elements,
+    ]);
+  }
+
+  return Buffer.from([description.id]);
+};
+
+/** Encodes a value without a tag, the inverse of {@link parseWithTypeDescription}. */
+const encodeWithoutTag = (data: ParsedDlmsData): Buffer => {
+  if (isParsedDlmsDataType('array', data) || isParsedDlmsDataType('structure', data)) {
+    return Buffer.concat(data.value.map(encodeWithoutTag));
+  }
+
+  // The tag is the first byte
+  return DlmsDataTypes.encode(data).subarray(1);
+};
+
+const encodeCompactArray = (value: ParsedDlmsData[]) => {
+  if (value.length === 0) {
+    throw new SmartMeterError('Unable to encode an empty compact array');
+  }
+
+  const content = Buffer.concat(value.map(encodeWithoutTag));
+
+  return Buffer.concat([
+    encodeTypeDescription(describeDlmsData(value[0])),
+    encodeDlmsObjectCount(content.length),
+    content,
+  ]);
+};
+
+const parseBitString = (index: number, buffer: Buffer) => {
+  const { objectCount: bitCount, newIndex } = getDlmsObjectCount(buffer, index);
+  index = newIndex;
+
+  const byteCount = Math.ceil(bitCount / 8);
+  const value = Array.from(buffer.subarray(index, index + byteCount))
+    .map((byte) => byte.toString(2).padStart(8, '0'))
+    .join('')
+    .slice(0, bitCount);
+
+  return { index: index + byteCount, value };
+};
+
+const encodeBitString = (value: string) => {
+  const bytes = Buffer.alloc(Math.ceil(value.length / 8));
+
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === '1') {
+      bytes[i >> 3] |= 0x80 >> (i & 0x07);
+    }
+  }
+
+  return Buffer.concat([encodeDlmsObjectCount(value.length), bytes]);
+};
+
 /**
  * A DLMS data type is:
  *
@@ -174,90 +481,225 @@ const parseStructureOrArray = (index: number, buffer: Buffer) => {
  * - A Length (only for some data types)
  * - The value (length is either determined by the tag and length)
  *
- * @note There are more data types. But these are the ones used by smart meters.
+ * The compact array is an array where the type description is only sent once, the elements
+ * themselves don't have a tag.
  */
 export const DlmsDataTypes = new DlmsDataTypesInternal()
-  .addDataType('array', 0x01, 1, parseStructureOrArray)
-  .addDataType('structure', 0x02, 1, parseStructureOrArray)
-  .addDataType('octet_string', 0x09, 1, (index, buffer) => {
-    const { objectCount, newIndex } = getDlmsObjectCount(buffer, index);
-    index = newIndex;
-    const value = buffer.subarray(index, index + objectCount);
-    index += objectCount;
-    return {
-      index,
-      value,
-    };
-  })
-  .addDataType('string', 0x0a, 1, (index, buffer) => {
-    const { objectCount, newIndex } = getDlmsObjectCount(buffer, index);
-    index = newIndex;
+  .addDataType('array', 0x01, 1, parseStructureOrArray, encodeStructureOrArray)
+  .addDataType('structure', 0x02, 1, parseStructureOrArray, encodeStructureOrArray)
+  .addDataType(
+    'octet_string',
+    0x09,
+    1,
+    (index, buffer) => {
+      const { objectCount, newIndex } = getDlmsObjectCount(buffer, index);
+      index = newIndex;
+      const value = buffer.subarray(index, index + objectCount);
+      index += objectCount;
+      return {
+        index,
+        value,
+      };
+    },
+    (value) => Buffer.concat([encodeDlmsObjectCount(value.length), value]),
+  )
+  .addDataType(
+    'string',
+    0x0a,
+    1,
+    (index, buffer) => {
+      const { objectCount, newIndex } = getDlmsObjectCount(buffer, index);
+      index = newIndex;
+
+      const value = buffer.subarray(index, index + objectCount).toString('utf-8');
 
-    const value = buffer.subarray(index, index + objectCount).toString('utf-8');
+      return {
+        index: index + objectCount,
+        value,
+      };
+    },
+    (value) => {
+      const buffer = Buffer.from(value, 'utf-8');
+      return Buffer.concat([encodeDlmsObjectCount(buffer.length), buffer]);
+    },
+  )
+  .addDataType(
+    'uint8',
+    0x11,
+    1,
+    (index, buffer) => {
+      const value = buffer.readUint8(index++);
+      return {
+        index,
+        value,
+      };
+    },
+    (value) => encodeNumber(1, (buffer) => buffer.writeUint8(value)),
+  )
+  .addDataType(
+    'uint16',
+    0x12,
+    2,
+    (index, buffer) => {
+      const value = buffer.readUint16BE(index);
+      index += 2;
+      return {
+        index,
+        value,
+      };
+    },
+    (value) => encodeNumber(2, (buffer) => buffer.writeUint16BE(value)),
+  )
+  .addDataType(
+    'uint32',
+    0x06,
+    4,
+    (index, buffer) => {
+      const value = buffer.readUint32BE(index);
+      index += 4;
+      return {
+        index,
+        value,
+      };
+    },
+    (value) => encodeNumber(4, (buffer) => buffer.writeUint32BE(value)),
+  )
+  .addDataType(
+    'int8',
+    0x0f,
+    1,
+    (index, buffer) => {
+      const value = buffer.readInt8(index);
+      index += 1;
+      return {
+        index,
+        value,
+      };
+    },
+    (value) => encodeNumber(1, (buffer) => buffer.writeInt8(value)),
+  )
+  .addDataType(
+    'int16',
+    0x10,
+    2,
+    (index, buffer) => {
+      const value = buffer.readInt16BE(index);
+      index += 2;
+      return {
+        index,
+        value,
+      };
+    },
+    (value) => encodeNumber(2, (buffer) => buffer.writeInt16BE(value)),
+  )
+  .addDataType(
+    'int32',
+    0x05,
+    4,
+    (index, buffer) => {
+      const value = buffer.readInt32BE(index);
+      index += 4;
+      return {
+        index,
+        value,
+      };
+    },
+    (value) => encodeNumber(4, (buffer) => buffer.writeInt32BE(value)),
+  )
+  .addDataType(
+    'enum',
+    0x16,
+    1,
+    (index, buffer) => {
+      const value = buffer.readUint8(index++);
+      return {
+        value,
+        index,
+      };
+    },
+    (value) => encodeNumber(1, (buffer) => buffer.writeUint8(value)),
+  )
+  .addDataType(
+    'boolean',
+    0x03,
+    1,
+    (index, buffer) => {
+      const value = buffer.readUint8(index++);
+      return {
+        value,
+        index,
+      };
+    },
+    (value) => encodeNumber(1, (buffer) => buffer.writeUint8(value)),
+  )
+  .addDataType(
+    'null',
+    0x00,
+    0,
+    (index) => ({ index, value: null }),
+    () => Buffer.alloc(0),
+  )
+  .addDataType(
+    'int64',
+    0x14,
+    8,
+    (index, buffer) => ({ index: index + 8, value: buffer.readBigInt64BE(index) }),
+    (value) => encodeNumber(8, (buffer) => buffer.writeBigInt64BE(value)),
+  )
+  .addDataType(
+    'uint64',
+    0x15,
+    8,
+    (index, buffer) => ({ index: index + 8, value: buffer.readBigUint64BE(index) }),
+    (value) => encodeNumber(8, (buffer) => buffer.writeBigUint64BE(value)),
+  )
+  .addDataType(
+    'float32',
+    0x17,
+    4,
+    (index, buffer) => ({ index: index + 4, value: buffer.readFloatBE(index) }),
+    (value) => encodeNumber(4, (buffer) => buffer.writeFloatBE(value)),
+  )
+  .addDataType(
+    'float64',
+    0x18,
+    8,
+    (index, buffer) => ({ index: index + 8, value: buffer.readDoubleBE(index) }),
+    (value) => encodeNumber(8, (buffer) => buffer.writeDoubleBE(value)),
+  )
+  .addDataType('bit_string', 0x04, 1, parseBitString, encodeBitString)
+  .addDataType(
+    'bcd',
+    0x0d,
+    1,
+    (index, buffer) => {
+      const byte = buffer.readUint8(index++);
+      return {
+        index,
+        value: (byte >> 4) * 10 + (byte & 0x0f),
+      };
+    },
+    (value) => Buffer.from([(Math.floor(value / 10) << 4) | value % 10]),
+  )
+  .addDataType(
+    'utf8_string',
+    0x0c,
+    1,
+    (index, buffer) => {
+      const { objectCount, newIndex } = getDlmsObjectCount(buffer, index);
+      index = newIndex;
 
-    return {
-      index: index + objectCount,
-      value,
-    };
-  })
-  .addDataType('uint8', 0x11, 1, (index, buffer) => {
-    const value = buffer.readUint8(index++);
-    return {
-      index,
-      value,
-    };
-  })
-  .addDataType('uint16', 0x12, 2, (index, buffer) => {
-    const value = buffer.readUint16BE(index);
-    index += 2;
-    return {
-      index,
-      value,
-    };
-  })
-  .addDataType('uint32', 0x06, 4, (index, buffer) => {
-    const value = buffer.readUint32BE(index);
-    index += 4;
-    return {
-      index,
-      value,
-    };
-  })
-  .addDataType('int8', 0x0f, 1, (index, buffer) => {
-    const value = buffer.readInt8(index);
-    index += 1;
-    return {
-      index,
-      value,
-    };
-  })
-  .addDataType('int16', 0x10, 2, (index, buffer) => {
-    const value = buffer.readInt16BE(index);
-    index += 2;
-    return {
-      index,
-      value,
-    };
-  })
-  .addDataType('int32', 0x05, 4, (index, buffer) => {
-    const value = buffer.readInt32BE(index);
-    index += 4;
-    return {
-      index,
-      value,
-    };
-  })
-  .addDataType('enum', 0x16, 1, (index, buffer) => {
-    const value = buffer.readUint8(index++);
-    return {
-      value,
-      index,
-    };
-  })
-  .addDataType('boolean', 0x03, 1, (index, buffer) => {
-    const value = buffer.readUint8(index++);
-    return {
-      value,
-      index,
-    };
-  });
+      return {
+        index: index + objectCount,
+        value: buffer.subarray(index, index + objectCount).toString('utf-8'),
+      };
+    },
+    (value) => {
+      const buffer = Buffer.from(value, 'utf-8');
+      return Buffer.concat([encodeDlmsObjectCount(buffer.length), buffer]);
+    },
+  )
+  .addDataType('date', 0x1a, 5, parseFixedLengthBuffer(5), encodeFixedLengthBuffer(5))
+  .addDataType('time', 0x1b, 4, parseFixedLengthBuffer(4), encodeFixedLengthBuffer(4))
+  .addDataType('date_time', 0x19, 12, parseFixedLengthBuffer(12), encodeFixedLengthBuffer(12))
+  .addDataType('compact_array', 0x13, 3, parseCompactArray, encodeCompactArray);
@@ -0,0 +1,158 @@
+/**
+ * COSEM date-time is a 12 byte octet string with the following format:
+ *
+ * | Bytes | Description  | Description                                                  |
+ * | ----- | ------------ | ------------------------------------------------------------ |
+ * | 2     | Year         | 0xFFFF when not specified                                    |
+ * | 1     | Month        | 1-12, 0xFD/0xFE for DST end/begin, 0xFF when not specified   |
+ * | 1     | Day of month | 1-31, 0xFD/0xFE for second last/last day, 0xFF not specified |
+ * | 1     | Day of week  | 1-7 (1 is Monday), 0xFF when not specified                   |
+ * | 1     | Hour         | 0-23, 0xFF when not specified                                |
+ * | 1     | Minute       | 0-59, 0xFF when not specified                                |
+ * | 1     | Second       | 0-59, 0xFF when not specified                                |
+ * | 1     | Hundredths   | 0-99, 0xFF when not specified                                |
+ * | 2     | Deviation    | Signed, minutes of local time to UTC, 0x8000 when not known  |
+ * | 1     | Clock status | See "Clock status", 0xFF when not specified                  |
+ *
+ * Clock status: 0bS000_CBDI
+ *
+ * | Bits | Description          | Description                                      |
+ * | ---- | -------------------- | ------------------------------------------------ |
+ * | S    | Daylight saving      | When 1, daylight saving time is active           |
+ * | C    | Invalid clock status | When 1, the clock status is invalid              |
+ * | B    | Different clock base | When 1, the clock is not based on the main clock |
+ * | D    | Doubtful value       | When 1, the value may be incorrect               |
+ * | I    | Invalid value        | When 1, the value is invalid                     |
+ *
+ * The deviation is the number of minutes that need to be added to the local time to get UTC, so for
+ * CET (UTC+01:00) the deviation is -60. When the deviation is not known, the local time is
+ * interpreted as UTC (like the timestamps of DSMR telegrams).
+ */
+
+export const COSEM_DATE_TIME_LENGTH = 12;
+export const COSEM_DEVIATION_NOT_SPECIFIED = -0x8000;
+export const COSEM_DEVIATION_MAX = 720;
+export const COSEM_CLOCK_STATUS_NOT_SPECIFIED = 0xff;
+export const COSEM_CLOCK_STATUS_DAYLIGHT_SAVING = 0x80;
+
+const NOT_SPECIFIED = 0xff;
+
+export type CosemDateTime = {
+  /** Null when the date-time doesn't specify a point in time (e.g. due to wildcards) */
+  date: Date | null;
+  year: number | null;
+  month: number | null;
+  dayOfMonth: number | null;
+  dayOfWeek: number | null;
+  hour: number | null;
+  minute: number | null;
+  second: number | null;
+  hundredths: number | null;
+  /** Minutes of local time to UTC, null when not known */
+  deviation: number | null;
+  clockStatus: {
+    invalidValue: boolean;
+    doubtfulValue: boolean;
+    differentClockBase: boolean;
+    invalidClockStatus: boolean;
+    daylightSavingActive: boolean;
+  } | null;
+};
+
+const specified = (value: number, max: number) => {
+  return value === NOT_SPECIFIED || value > max ? null : value;
+};
+
+/**
+ * Decodes a COSEM date-time.
+ *
+ * @returns Null when the data isn't a COSEM date-time.
+ */
+export const decodeCosemDateTime = (data: Buffer): CosemDateTime | null => {
+  if (data.length !== COSEM_DATE_TIME_LENGTH) {
+    return null;
+  }
+
+  const rawYear = data.readUint16BE(0);
+  const year = rawYear === 0xffff ? null : rawYear;
+  const month = specified(data.readUint8(2), 12);
+  const dayOfMonth = specified(data.readUint8(3), 31);
+  const dayOfWeek = specified(data.readUint8(4), 7);
+  const hour = specified(data.readUint8(5), 23);
+  const minute = specified(data.readUint8(6), 59);
+  const second = specified(data.readUint8(7), 59);
+  const hundredths = specified(data.readUint8(8), 99);
+  const rawDeviation = data.readInt16BE(9);
+  const deviation = Math.abs(rawDeviation) > COSEM_DEVIATION_MAX ? null : rawDeviation;
+  const rawClockStatus = data.readUint8(11);
+
+  const clockStatus =
+    rawClockStatus === COSEM_CLOCK_STATUS_NOT_SPECIFIED
+      ? null
+      : {
+          invalidValue: (rawClockStatus & 0x01) !== 0,
+          doubtfulValue: (rawClockStatus & 0x02) !== 0,
+          differentClockBase: (rawClockStatus & 0x04) !== 0,
+          invalidClockStatus: (rawClockStatus & 0x08) !== 0,
+          daylightSavingActive: (rawClockStatus & COSEM_CLOCK_STATUS_DAYLIGHT_SAVING) !== 0,
+        };
+
+  let date: Date | null = null;
+
+  if (
+    year !== null &&
+    month !== null &&
+    month > 0 &&
+    dayOfMonth !== null &&
+    dayOfMonth > 0 &&
+    hour !== null &&
+    minute !== null
+  ) {
+    const utc = Date.UTC(
+      year,
+      month - 1,
+      dayOfMonth,
+      hour,
+      minute,
+      second ?? 0,
+      (hundredths ?? 0) * 10,
+    );
+
+    date = new Date(utc + (deviation ?? 0) * 60 * 1000);
+  }
+
+  return {
+    date,
+    year,
+    month,
+    dayOfMonth,
+    dayOfWeek,
+    hour,
+    minute,
+    second,
+    hundredths,
+    deviation,
+    clockStatus,
+  };
+};
+
+/**
+ * Decodes a COSEM date-time into the timestamp properties of the parser result.
+ *
+ * @returns Null when the date-time doesn't specify a point in time.
+ */
+export const decodeCosemTimestamp = (data: Buffer) => {
+  const dateTime = decodeCosemDateTime(data);
+
+  if (!dateTime?.date) {
+    return null;
+  }
+
+  return {
+    timestamp: dateTime.date,
+    ...(dateTime.deviation !== null && { timestampDeviation: dateTime.deviation }),
+    ...(dateTime.clockStatus && {
+      timestampDst: dateTime.clockStatus.daylightSavingActive,
+    }),
+  };
+};
@@ -1,4 +1,4 @@
-import { isDlmsStructureLike, ParsedDlmsData } from '../dlms-datatype.js';
+import { getDlmsNumberValue, isDlmsStructureLike, ParsedDlmsData } from '../dlms-datatype.js';
 import { ObisCode, parseObisCodeFromString } from '../obis-code.js';
 import { makeDlmsPayload, parseDlmsCosem } from './dlms-payload.js';
 
@@ -13,13 +13,14 @@ type IskraObisConfig = {
 
 const runTest = (value: ParsedDlmsData, config: IskraObisConfig) => {
   if (config.type === 'ignore') return true;
-  if (value.type === 'missing') return true;
+  if (value.type === 'missing' || value.type === 'null') return true;
 
   if (typeof config === 'object' && config.test) {
     return config.test(value);
   }
 
   if (config.type === 'buffer') return Buffer.isBuffer(value.value);
+  if (config.type === 'number') return getDlmsNumberValue(value) !== null;
 
   return typeof value.value === config.type;
 };
@@ -33,8 +34,8 @@ const runConvert = (value: ParsedDlmsData, config: IskraObisConfig) => {
     return value.value;
   }
 
-  if (config.type === 'number' && typeof value.value === 'number') {
-    return value.value;
+  if (config.type === 'number') {
+    return getDlmsNumberValue(value);
   }
 
   if (config.type === 'buffer' && Buffer.isBuffer(value.value)) {
@@ -75,7 +76,7 @@ export const makeIskraDlmsPayload = (
 
       return true;
     },
-    parser(dlms, result) {
+    parser(dlms, result, { cosemLibrary }) {
       if (!isDlmsStructureLike(dlms)) {
         return false;
       }
@@ -93,9 +94,11 @@ export const makeIskraDlmsPayload = (
 
         parseDlmsCosem({
           result,
+          cosemLibrary,
           obisCode,
           value: converted,
           unit: null,
+          rawType: value.type,
           dlms: { useDefaultScalar: true },
         });
       }
@@ -39,7 +39,7 @@ export const DlmsPayloadBasicList = makeDlmsPayload('BasicList', {
 
     return true;
   },
-  parser(dlms, result) {
+  parser(dlms, result, { cosemLibrary }) {
     if (!isDlmsStructureLike(dlms)) {
       return;
     }
@@ -58,11 +58,14 @@ export const DlmsPayloadBasicList = makeDlmsPayload('BasicList', {
 
       parseDlmsCosem({
         result,
+        cosemLibrary,
         obisCode,
         value: valueRaw.value,
         unit: null,
+        rawType: valueRaw.type,
         dlms: {
           useDefaultScalar: true,
+          data: valueRaw,
         },
       });
     }
@@ -1,4 +1,5 @@
 import {
+  applyDlmsScaler,
   isDlmsStructureLike,
   isDlmsObisCode,
   getDlmsNumberValue,
@@ -10,6 +11,10 @@ import { ObisCode } from '../obis-code.js';
 import { addUnknownDlmsObject, makeDlmsPayload, parseDlmsCosem } from './dlms-payload.js';
 
 export const DLMS_UNITS = {
+  [8]: '°',
+  [13]: 'm3',
+  // Corrected volume, e.g. of gas meters
+  [14]: 'm3',
   [27]: 'W',
   [28]: 'VA',
   [29]: 'var',
@@ -19,8 +24,33 @@ export const DLMS_UNITS = {
   [33]: 'A',
   [34]: 'C',
   [35]: 'V',
+  [44]: 'Hz',
 } as const;
 
+/**
+ * Parses the scaler-unit structure of a register (int8 scaler and enum unit).
+ *
+ * @returns Null when the data isn't a scaler-unit structure.
+ */
+export const parseDlmsScalerUnit = (object: ParsedDlmsData) => {
+  if (!isDlmsStructureLike(object) || object.value.length !== 2) {
+    return null;
+  }
+
+  let scaler: number | null = null;
+  let unit: string | null = null;
+
+  for (const item of object.value) {
+    if (isParsedDlmsDataType('enum', item)) {
+      unit = DLMS_UNITS[item.value as keyof typeof DLMS_UNITS] ?? String(item.value);
+    } else {
+      scaler = getDlmsNumberValue(item) ?? scaler;
+    }
+  }
+
+  return { scaler, unit };
+};
+
 /**
  * Cosem structure is an array/structure with 3 elements:
  *
@@ -41,9 +71,11 @@ export const parseDlmsCosemStructure = (object: ParsedDlmsData) => {
   }
 
   let obisCode: ObisCode | null = null;
-  let value: string | number | null = null;
+  let value: string | number | bigint | null = null;
   let unit: string | null = null;
-  let scalar = 1;
+  let data: ParsedDlmsData | undefined = undefined;
+  let rawType = 'missing';
+  let scaler: number | null = null;
 
   for (const item of object.value) {
     // This assumes that the first octet_string is the OBIS code.
@@ -56,31 +88,39 @@ export const parseDlmsCosemStructure = (object: ParsedDlmsData) => {
       }
     }
 
+    // Structured values (e.g. the buffer of a profile generic object) are always arrays.
+    if (isParsedDlmsDataType('array', item)) {
+      data = item;
+      rawType = item.type;
+      continue;
+    }
+
     if (isDlmsStructureLike(item)) {
-      if (item.value.length !== 2) continue;
-
-      // This is the enum, it should contain the scalar value and the unit
-      for (const subItem of item.value) {
-        if (isParsedDlmsDataType('enum', subItem)) {
-          unit = DLMS_UNITS[subItem.value as keyof typeof DLMS_UNITS] ?? String(subItem.value);
-        } else {
-          const numberValue = getDlmsNumberValue(subItem);
-
-          if (numberValue !== null) {
-            scalar = numberValue;
-          }
-        }
+      const scalerUnit = parseDlmsScalerUnit(item);
+
+      if (scalerUnit) {
+        scaler = scalerUnit.scaler;
+        unit = scalerUnit.unit;
       }
       continue;
     }
 
-    if (isParsedDlmsDataType('string', item)) {
+    if (isParsedDlmsDataType('string', item) || isParsedDlmsDataType('utf8_string', item)) {
       value = item.value;
+      rawType = item.type;
       continue;
     }
 
-    if (isParsedDlmsDataType('octet_string', item)) {
+    if (isParsedDlmsDataType('octet_string', item) || isParsedDlmsDataType('date_time', item)) {
       value = item.value.toString('hex');
+      rawType = item.type;
+      continue;
+    }
+
+    // 64-bit integers are kept as bigint, the scaler is applied when they are parsed.
+    if (typeof item.value === 'bigint') {
+      value = item.value;
+      rawType = item.type;
       continue;
     }
 
@@ -89,13 +129,14 @@ export const parseDlmsCosemStructure = (object: ParsedDlmsData) => {
     if (numberValue === null) continue;
 
     value = numberValue;
+    rawType = item.type;
   }
 
-  if (typeof value === 'number' && scalar) {
-    value = Math.pow(10, scalar) * value;
+  if (typeof value === 'number') {
+    value = applyDlmsScaler(value, scaler);
   }
 
-  if (obisCode === null || value === null) {
+  if (obisCode === null || (value === null && data === undefined)) {
     return null;
   }
 
@@ -103,6 +144,9 @@ export const parseDlmsCosemStructure = (object: ParsedDlmsData) => {
     obisCode,
     value,
     unit,
+    rawType,
+    scaler,
+    data,
   };
 };
 
@@ -145,7 +189,7 @@ export const DlmsPayloadBasicStructure = makeDlmsPayload('BasicStructure', {
 
     return true;
   },
-  parser: (dlms, result) => {
+  parser: (dlms, result, { cosemLibrary }) => {
     if (!isDlmsStructureLike(dlms)) {
       return;
     }
@@ -160,12 +204,16 @@ export const DlmsPayloadBasicStructure = makeDlmsPayload('BasicStructure', {
 
       parseDlmsCosem({
         obisCode: cosemStructure.obisCode,
-        value: cosemStructure.value,
+        value: cosemStructure.value ?? cosemStructure.data?.value,
         unit: cosemStructure.unit,
+        scaler: cosemStructure.scaler,
+        rawType: cosemStructure.rawType,
         dlms: {
           useDefaultScalar: false,
+          data: cosemStructure.data,
         },
         result,
+        cosemLibrary,
       });
     }
   },
@@ -1,9 +1,24 @@
-import { getDlmsObisCode, isDlmsStructureLike } from '../dlms-datatype.js';
-import { isEqualObisCode, parseObisCodeFromString } from '../obis-code.js';
+import {
+  applyDlmsScaler,
+  getDlmsNumberValue,
+  getDlmsObisCode,
+  isDlmsStructureLike,
+  ParsedDlmsData,
+} from '../dlms-datatype.js';
+import {
+  isEqualObisCode,
+  ObisCode,
+  obisCodeToString,
+  parseObisCodeFromString,
+} from '../obis-code.js';
+import { parseDlmsScalerUnit } from './BasicStructure.js';
 import { addUnknownDlmsObject, makeDlmsPayload, parseDlmsCosem } from './dlms-payload.js';
 
 const descriptorListObisCode = parseObisCodeFromString('0-6:25.9.0.255').obisCode;
 
+/** Attribute of a register object that contains the scaler and the unit of the value */
+const SCALER_UNIT_ATTRIBUTE = 3;
+
 export const DlmsPayloadDescribedList = makeDlmsPayload('DescribedList', {
   detector(dlms) {
     if (!isDlmsStructureLike(dlms)) {
@@ -22,7 +37,7 @@ export const DlmsPayloadDescribedList = makeDlmsPayload('DescribedList', {
 
     return true;
   },
-  parser(dlms, result) {
+  parser(dlms, result, { cosemLibrary }) {
     if (!isDlmsStructureLike(dlms)) {
       return;
     }
@@ -31,6 +46,9 @@ export const DlmsPayloadDescribedList = makeDlmsPayload('DescribedList', {
 
     if (!isDlmsStructureLike(descriptorList)) return;
 
+    const entries: { obisCode: ObisCode; attribute: number | null; valueRaw?: ParsedDlmsData }[] =
+      [];
+
     let nextValueIndex = 1;
     for (const [index, descriptor] of descriptorList.value.entries()) {
       if (!isDlmsStructureLike(descriptor)) {
@@ -61,16 +79,52 @@ export const DlmsPayloadDescribedList = makeDlmsPayload('DescribedList', {
         continue;
       }
 
-      const valueRaw = dlms.value[nextValueIndex++];
+      const attributeRaw = descriptor.value[2];
+
+      entries.push({
+        obisCode,
+        attribute: attributeRaw ? getDlmsNumberValue(attributeRaw) : null,
+        valueRaw: dlms.value[nextValueIndex++],
+      });
+    }
+
+    // The scaler and unit of a register can be captured as a separate attribute of the same object.
+    const scalerUnits = new Map<string, NonNullable<ReturnType<typeof parseDlmsScalerUnit>>>();
+
+    for (const { obisCode, attribute, valueRaw } of entries) {
+      if (attribute !== SCALER_UNIT_ATTRIBUTE || !valueRaw) continue;
+
+      const scalerUnit = parseDlmsScalerUnit(valueRaw);
+
+      if (scalerUnit) {
+        scalerUnits.set(obisCodeToString(obisCode), scalerUnit);
+      }
+    }
+
+    for (const { obisCode, attribute, valueRaw } of entries) {
+      const scalerUnit = scalerUnits.get(obisCodeToString(obisCode));
+
+      if (attribute === SCALER_UNIT_ATTRIBUTE && scalerUnit) continue;
+
+      // 64-bit integers are kept as bigint, the scaler is applied when they are parsed.
+      const value =
+        scalerUnit && typeof valueRaw?.value === 'number'
+          ? applyDlmsScaler(valueRaw.value, scalerUnit.scaler)
+          : valueRaw?.value;
 
       parseDlmsCosem({
         obisCode,
-        value: valueRaw?.value,
-        unit: null,
+        value,
+        unit: scalerUnit?.unit ?? null,
+        scaler: scalerUnit?.scaler ?? null,
+        rawType: valueRaw?.type ?? 'missing',
         dlms: {
-          useDefaultScalar: true,
+          // The meter didn't send the scaler, so the parsers have to apply their default scaler.
+          useDefaultScalar: !scalerUnit,
+          data: valueRaw,
         },
         result,
+        cosemLibrary,
       });
     }
   },
@@ -0,0 +1,98 @@
+import { isDlmsObisCode, isDlmsStructureLike, ParsedDlmsData } from '../dlms-datatype.js';
+import { addUnknownDlmsObject, makeDlmsPayload, parseDlmsCosem } from './dlms-payload.js';
+import { parseDlmsCosemStructure } from './BasicStructure.js';
+
+const isCosemTriplet = (items: ParsedDlmsData[], index: number) => {
+  const scalerUnit = items[index + 2];
+
+  return (
+    isDlmsObisCode(items[index]) &&
+    items[index + 1] !== undefined &&
+    scalerUnit !== undefined &&
+    isDlmsStructureLike(scalerUnit) &&
+    scalerUnit.value.length === 2
+  );
+};
+
+/**
+ * Used by Kaifa meters in Austria (e.g. Wiener Netze).
+ *
+ * DLMS structure is like this:
+ *
+ * - Structure
+ * - Octet_string (optional, timestamp)
+ * - Octet_string (obis code)
+ * - Value (can be anything)
+ * - Structure (unit and scalar)
+ *
+ *   - Int8 (scalar)
+ *   - Enum (unit)
+ * - Etc...
+ * - Octet_string (optional, meter number)
+ */
+export const DlmsPayloadFlatStructure = makeDlmsPayload('FlatStructure', {
+  detector(dlms) {
+    if (!isDlmsStructureLike(dlms)) {
+      return false;
+    }
+
+    let cosemObjects = 0;
+    let index = 0;
+
+    while (index < dlms.value.length) {
+      if (isCosemTriplet(dlms.value, index)) {
+        cosemObjects++;
+        index += 3;
+        continue;
+      }
+
+      // Only octet strings are allowed in between the COSEM objects.
+      if (dlms.value[index].type !== 'octet_string') {
+        return false;
+      }
+
+      index++;
+    }
+
+    return cosemObjects > 0;
+  },
+  parser(dlms, result, { cosemLibrary }) {
+    if (!isDlmsStructureLike(dlms)) {
+      return;
+    }
+
+    let index = 0;
+
+    while (index < dlms.value.length) {
+      if (!isCosemTriplet(dlms.value, index)) {
+        addUnknownDlmsObject(dlms.value[index], result);
+        index++;
+        continue;
+      }
+
+      const cosemStructure = parseDlmsCosemStructure({
+        type: 'structure',
+        value: dlms.value.slice(index, index + 3),
+      });
+      index += 3;
+
+      if (!cosemStructure) {
+        continue;
+      }
+
+      parseDlmsCosem({
+        obisCode: cosemStructure.obisCode,
+        value: cosemStructure.value ?? cosemStructure.data?.value,
+        unit: cosemStructure.unit,
+        scaler: cosemStructure.scaler,
+        rawType: cosemStructure.rawType,
+        dlms: {
+          useDefaultScalar: false,
+          data: cosemStructure.data,
+        },
+        result,
+        cosemLibrary,
+      });
+    }
+  },
+});
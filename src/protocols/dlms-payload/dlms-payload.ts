@@ -1,9 +1,19 @@
-import { CosemLibrary, DlmsCosemParameters } from '../cosem.js';
-import { ParsedDlmsData } from '../dlms-datatype.js';
-import { HdlcParserResult } from '../hdlc.js';
+import {
+  CosemLibrary,
+  CosemLibraryInstance,
+  DlmsCosemParameters,
+  getDlmsDefaultScaler,
+} from '../cosem.js';
+import { applyDlmsScaler, ParsedDlmsData } from '../dlms-datatype.js';
+import { DlmsParserResult } from '../dlms.js';
 import { ObisCode, obisCodeToString } from '../obis-code.js';
 import type { parseDlmsCosemStructure } from './BasicStructure.js';
 
+export type DlmsPayloadOptions = {
+  /** COSEM library used to map the OBIS codes, defaults to {@link CosemLibrary} */
+  cosemLibrary?: CosemLibraryInstance;
+};
+
 /**
  * In DLMS, the payload can have different structures. Depending on the structure we have a
  * different method of mapping the data to an OBIS code.
@@ -22,29 +32,69 @@ export const makeDlmsPayload = (
     parser,
   }: {
     detector: (dlms: ParsedDlmsData) => boolean;
-    parser: (dlms: ParsedDlmsData, result: HdlcParserResult) => void;
+    parser: (dlms: ParsedDlmsData, result: DlmsParserResult, options: DlmsPayloadOptions) => void;
   },
 ) => {
   return { name, detector, parser };
 };
 
+export type DlmsPayload = ReturnType<typeof makeDlmsPayload>;
+
 export const parseDlmsCosem = ({
   obisCode,
   value,
   unit,
+  scaler = null,
+  rawType,
   dlms,
   result,
+  cosemLibrary = CosemLibrary,
 }: {
   obisCode: ObisCode;
   value: unknown;
   unit: string | null;
+  /**
+   * The scaler that was sent by the meter, it is already applied to the value unless it is a bigint
+   * (64-bit integer).
+   */
+  scaler?: number | null;
+  /** The DLMS data type of the value */
+  rawType: string;
   dlms: DlmsCosemParameters;
-  result: HdlcParserResult;
+  result: DlmsParserResult;
+  cosemLibrary?: CosemLibraryInstance;
 }) => {
-  const parser = CosemLibrary.getParser(obisCode);
+  const parser = cosemLibrary.getParser(obisCode);
 
   const obisCodeString = obisCodeToString(obisCode);
-  const valueStr = `${Buffer.isBuffer(value) ? value.toString('hex') : String(value)}${unit ? `*${unit}` : ''}`;
+
+  // Values without a scaler are stored with the default scaler that the parsers apply as well.
+  const defaultScaler =
+    dlms.useDefaultScalar && (typeof value === 'number' || typeof value === 'bigint')
+      ? getDlmsDefaultScaler(obisCode)
+      : null;
+
+  result.cosem.objects[obisCodeString] = {
+    value: Buffer.isBuffer(value)
+      ? value.toString('hex')
+      : typeof value === 'number'
+        ? applyDlmsScaler(value, defaultScaler)
+        : typeof value === 'string' || typeof value === 'bigint'
+          ? value
+          : null,
+    unit,
+    scaler: defaultScaler ?? scaler,
+    rawType,
+    source: 'dlms',
+  };
+
+  const valueStr = `${
+    Buffer.isBuffer(value)
+      ? value.toString('hex')
+      : Array.isArray(value)
+        ? `${rawType}[${value.length}]`
+        : String(value)
+  }${unit ? `*${unit}` : ''}`;
   const cosemStr = `${obisCodeString}(${valueStr})`;
 
   if (!parser) {
@@ -54,7 +104,13 @@ export const parseDlmsCosem = ({
 
   switch (parser.parameterType) {
     case 'number': {
-      if (typeof value !== 'number') {
+      // 64-bit integers are only parsed when they fit in a number without losing precision.
+      const valueNumber =
+        typeof value === 'bigint' && Number.isSafeInteger(Number(value))
+          ? applyDlmsScaler(Number(value), scaler)
+          : value;
+
+      if (typeof valueNumber !== 'number') {
         result.cosem.unknownObjects.push(cosemStr);
         return;
       }
@@ -63,8 +119,8 @@ export const parseDlmsCosem = ({
         result,
         obisCode,
         dlms,
-        valueNumber: value,
-        valueString: String(value),
+        valueNumber,
+        valueString: String(valueNumber),
         unit: unit,
       });
 
@@ -72,6 +128,11 @@ export const parseDlmsCosem = ({
       break;
     }
     case 'string': {
+      // Octet strings are hex encoded, like they are in DSMR telegrams.
+      if (Buffer.isBuffer(value)) {
+        value = value.toString('hex');
+      }
+
       if (typeof value !== 'string') {
         result.cosem.unknownObjects.push(cosemStr);
         return;
@@ -87,7 +148,7 @@ export const parseDlmsCosem = ({
       break;
     }
     case 'raw': {
-      if (typeof value !== 'string' && typeof value !== 'number') {
+      if (typeof value !== 'string' && typeof value !== 'number' && !dlms.data) {
         result.cosem.unknownObjects.push(cosemStr);
         return;
       }
@@ -96,7 +157,7 @@ export const parseDlmsCosem = ({
         result,
         obisCode,
         dlms,
-        valueString: String(value),
+        valueString: typeof value === 'string' || typeof value === 'number' ? String(value) : '',
       });
 
       result.cosem.knownObjects.push(cosemStr);
@@ -120,12 +181,12 @@ export const parseDlmsCosem = ({
   }
 };
 
-export const addUnknownDlmsObject = ({ value, type }: ParsedDlmsData, result: HdlcParserResult) => {
+export const addUnknownDlmsObject = ({ value, type }: ParsedDlmsData, result: DlmsParserResult) => {
   let valueStr = '';
 
   if (typeof value === 'string') {
     valueStr = value;
-  } else if (typeof value === 'number') {
+  } else if (typeof value === 'number' || typeof value === 'bigint') {
     valueStr = String(value);
   } else if (value === null) {
     valueStr = 'null';
@@ -141,13 +202,13 @@ export const addUnknownDlmsObject = ({ value, type }: ParsedDlmsData, result: Hd
 export const addUnknownDlmsCosemObject = (
   obisCode: ObisCode,
   { value }: ParsedDlmsData,
-  result: HdlcParserResult,
+  result: DlmsParserResult,
 ) => {
   let valueStr = '';
 
   if (typeof value === 'string') {
     valueStr = value;
-  } else if (typeof value === 'number') {
+  } else if (typeof value === 'number' || typeof value === 'bigint') {
     valueStr = String(value);
   } else if (value === null) {
     valueStr = 'null';
@@ -162,7 +223,7 @@ export const addUnknownDlmsCosemObject = (
 
 export const addUnknownDlmsStructureObject = (
   structure: ReturnType<typeof parseDlmsCosemStructure>,
-  result: HdlcParserResult,
+  result: DlmsParserResult,
 ) => {
   if (!structure) return;
 
@@ -170,7 +231,7 @@ export const addUnknownDlmsStructureObject = (
 
   if (typeof structure.value === 'string') {
     valueStr = structure.value;
-  } else if (typeof structure.value === 'number') {
+  } else if (typeof structure.value === 'number' || typeof structure.value === 'bigint') {
     valueStr = String(structure.value);
   } else if (structure.value === null) {
     valueStr = 'null';
@@ -1,37 +1,73 @@
 import { ParsedDlmsData } from '../dlms-datatype.js';
-import { HdlcParserResult } from '../hdlc.js';
+import { DlmsParserResult } from '../dlms.js';
 import { DlmsPayloadBasicList } from './BasicList.js';
 import { DlmsPayloadBasicStructure } from './BasicStructure.js';
 import { DlmsPayloadDescribedList } from './DescribedList.js';
-import type { makeDlmsPayload } from './dlms-payload.js';
+import type { DlmsPayload, DlmsPayloadOptions } from './dlms-payload.js';
 import { DlmsPayloadECEList1 } from './ECEList1.js';
 import { DlmsPayloadECEList2 } from './ECEList2.js';
+import { DlmsPayloadFlatStructure } from './FlatStructure.js';
 import { DlmsPayloadIskraList } from './IskraList.js';
 
-class DlmsPayloadsInternal {
-  payloadDecoders: ReturnType<typeof makeDlmsPayload>[] = [];
+export class DlmsPayloadsInternal {
+  payloadDecoders: { payload: DlmsPayload; priority: number }[] = [];
 
-  addPayload(payloadHandler: ReturnType<typeof makeDlmsPayload>) {
-    this.payloadDecoders.push(payloadHandler);
+  /**
+   * Adds a payload. Payloads are tried in order of priority (highest first), payloads with the same
+   * priority are tried in the order they were added. The built-in payloads have priority 0, so a
+   * payload with a higher priority is detected before any of the built-in ones.
+   */
+  addPayload(payload: DlmsPayload, { priority = 0 }: { priority?: number } = {}) {
+    const index = this.payloadDecoders.findIndex((item) => item.priority < priority);
+    const entry = { payload, priority };
+
+    if (index === -1) {
+      this.payloadDecoders.push(entry);
+    } else {
+      this.payloadDecoders.splice(index, 0, entry);
+    }
+
+    return this;
+  }
+
+  /** Removes all payloads with the given name. */
+  removePayload(name: string) {
+    this.payloadDecoders = this.payloadDecoders.filter((item) => item.payload.name !== name);
     return this;
   }
 
-  parse(dlms: ParsedDlmsData, result: HdlcParserResult) {
-    for (const payload of this.payloadDecoders) {
+  parse(dlms: ParsedDlmsData, result: DlmsParserResult, options: DlmsPayloadOptions = {}) {
+    for (const { payload } of this.payloadDecoders) {
       if (payload.detector(dlms)) {
-        payload.parser(dlms, result);
+        payload.parser(dlms, result, options);
         return payload.name;
       }
     }
 
     throw new Error('No matching DLMS payload found');
   }
+
+  /** Creates a new set of payloads that contains all payloads of this one. */
+  extend() {
+    const payloads = new DlmsPayloadsInternal();
+    payloads.payloadDecoders = [...this.payloadDecoders];
+    return payloads;
+  }
 }
 
+export type DlmsPayloadsInstance = DlmsPayloadsInternal;
+
+/**
+ * Creates an empty set of DLMS payloads. Use `DlmsPayloads.extend()` to start with all the payloads
+ * that are supported by default.
+ */
+export const createDlmsPayloads = () => new DlmsPayloadsInternal();
+
 export const DlmsPayloads = new DlmsPayloadsInternal()
   .addPayload(DlmsPayloadBasicList)
   .addPayload(DlmsPayloadBasicStructure)
   .addPayload(DlmsPayloadDescribedList)
   .addPayload(DlmsPayloadIskraList)
   .addPayload(DlmsPayloadECEList1)
-  .addPayload(DlmsPayloadECEList2);
+  .addPayload(DlmsPayloadECEList2)
+  .addPayload(DlmsPayloadFlatStructure);
@@ -8,7 +8,8 @@
  * We support the following message types:
  *
  * - Data Notification (0x0f)
- * - Encrypted Message (0xdb) with Data Notification messages inside.
+ * - Encrypted Message (0xdb or 0xdc) with Data Notification messages inside, these can also be
+ *   authenticated only.
  *
  * The contents of the DLMS Data Notification message is defined as follows:
  *
@@ -23,19 +24,69 @@
  * https://www.gurux.fi/GuruxDLMSTranslator
  */
 
-import { decryptDlmsFrame, ENCRYPTED_DLMS_TELEGRAM_SOF } from '../protocols/encryption.js';
+import {
+  decodeEncryptionHeader,
+  decryptDlmsFrame,
+  encryptDlmsFrame,
+  ENCRYPTED_DLMS_AUTHENTICATION_TAG,
+  getEncryptionInfo,
+  isEncryptedDlmsSof,
+} from '../protocols/encryption.js';
 import { SmartMeterDecryptionRequired, SmartMeterUnknownMessageTypeError } from '../util/errors.js';
-import { DlmsDataTypes, getDlmsObjectCount } from './dlms-datatype.js';
-import { DlmsPayloads } from './dlms-payload/dlms-payloads.js';
-import { HdlcParserResult } from './hdlc.js';
+import {
+  DlmsDataTypes,
+  encodeDlmsObjectCount,
+  getDlmsObjectCount,
+  ParsedDlmsData,
+} from './dlms-datatype.js';
+import { DlmsPayloads, DlmsPayloadsInstance } from './dlms-payload/dlms-payloads.js';
+import type { DlmsPayloadOptions } from './dlms-payload/dlms-payload.js';
+import { decodeCosemTimestamp } from './dlms-datetime.js';
+import { BaseParserResult, EncryptionInfo } from '../util/base-result.js';
+import type { SmartMeterReplayGuard } from '../util/replay-guard.js';
+import type { SmartMeterKeyRing } from '../util/key-ring.js';
+import {
+  encodeHdlcFrame,
+  HDLC_FOOTER_LENGTH,
+  HDLC_HEADER_LENGTH,
+  HDLC_LLC_DESTINATION,
+  HDLC_LLC_QUALITY,
+  HDLC_LLC_SOURCE,
+  HDLC_MAX_FRAME_LENGTH,
+} from './hdlc.js';
+
+/** Result of a DLMS telegram, regardless of the transport layer (HDLC or M-Bus) used. */
+export type DlmsParserResult = BaseParserResult & {
+  dlms: {
+    invokeId: number;
+    /** Timestamp of the Data Notification, only set when the meter sends a valid timestamp */
+    timestamp?: Date;
+    /** Deviation of the local time to UTC in minutes */
+    timestampDeviation?: number;
+    /** True when daylight saving time was active at the time of the timestamp */
+    timestampDst?: boolean;
+    unknownObjects: string[];
+    payloadType: string;
+  };
+};
 
 export const DLMS_DATA_NOTIFICATION_SOF = 0x0f;
 
 export const decodeDlmsObis = (
   dlms: ReturnType<typeof decodeDLMSContent>,
-  result: HdlcParserResult,
+  result: DlmsParserResult,
+  {
+    dlmsPayloads = DlmsPayloads,
+    ...options
+  }: DlmsPayloadOptions & { dlmsPayloads?: DlmsPayloadsInstance } = {},
 ) => {
-  const payloadType = DlmsPayloads.parse(dlms.data, result);
+  const timestamp = decodeCosemTimestamp(dlms.timestamp);
+
+  if (timestamp) {
+    Object.assign(result.dlms, timestamp);
+  }
+
+  const payloadType = dlmsPayloads.parse(dlms.data, result, options);
 
   result.dlms.payloadType = payloadType;
 };
@@ -43,30 +94,48 @@ export const decodeDlmsObis = (
 export const decodeDLMSContent = ({
   frame,
   decryptionKey,
+  keyRing,
+  authenticationKey,
   additionalAuthenticatedData,
+  replayGuard,
 }: {
   frame: Buffer;
   decryptionKey?: Buffer;
+  keyRing?: SmartMeterKeyRing;
+  authenticationKey?: Buffer;
   additionalAuthenticatedData?: Buffer;
+  replayGuard?: SmartMeterReplayGuard;
 }) => {
   let index = 0;
   const msgTypePeek = frame.readUint8(index);
   let decryptionError: Error | undefined;
+  let encryption: EncryptionInfo | undefined;
+
+  if (isEncryptedDlmsSof(msgTypePeek) && !decryptionKey && !keyRing) {
+    const header = decodeEncryptionHeader(frame);
 
-  if (msgTypePeek === ENCRYPTED_DLMS_TELEGRAM_SOF) {
-    if (!decryptionKey) {
+    if (header.securityType !== ENCRYPTED_DLMS_AUTHENTICATION_TAG) {
       throw new SmartMeterDecryptionRequired();
     }
 
+    // Frames that are only authenticated can be parsed without a key, but aren't verified then.
+    encryption = getEncryptionInfo(header);
+    replayGuard?.check(encryption);
+    frame = frame.subarray(header.consumedBytes, header.consumedBytes + header.contentLength);
+  } else if (isEncryptedDlmsSof(msgTypePeek)) {
     // Encrypted telegram
-    const { content, error } = decryptDlmsFrame({
+    const decrypted = decryptDlmsFrame({
       data: frame,
       key: decryptionKey,
+      keyRing,
+      authenticationKey,
       additionalAuthenticatedData,
+      replayGuard,
     });
 
-    decryptionError = error;
-    frame = content;
+    decryptionError = decrypted.error;
+    encryption = decrypted.encryption;
+    frame = decrypted.content;
   }
 
   try {
@@ -94,6 +163,7 @@ export const decodeDLMSContent = ({
       timestamp,
       data: { value, type },
       decryptionError,
+      encryption,
     };
   } catch (error) {
     // If we're unable to parse the data and we have a decryption error,
@@ -105,3 +175,78 @@ export const decodeDLMSContent = ({
     throw error;
   }
 };
+
+export type DlmsTelegramBuilderOptions = {
+  /** The DLMS data, usually a structure with COSEM objects */
+  data: ParsedDlmsData;
+  invokeId?: number;
+  /** Raw COSEM date-time (12 bytes), omitted when not set */
+  timestamp?: Buffer;
+  /** When set, the Data Notification is wrapped in a ciphered (general-glo-ciphering) frame */
+  encryption?: Omit<Parameters<typeof encryptDlmsFrame>[0], 'data'>;
+};
+
+/** Encodes a Data Notification, the inverse of {@link decodeDLMSContent} */
+export const encodeDLMSContent = ({
+  data,
+  invokeId = 0,
+  timestamp = Buffer.alloc(0),
+  encryption,
+}: DlmsTelegramBuilderOptions) => {
+  const invokeIdBuffer = Buffer.alloc(4);
+  invokeIdBuffer.writeUint32BE(invokeId);
+
+  const frame = Buffer.concat([
+    Buffer.from([DLMS_DATA_NOTIFICATION_SOF]),
+    invokeIdBuffer,
+    encodeDlmsObjectCount(timestamp.length),
+    timestamp,
+    DlmsDataTypes.encode(data),
+  ]);
+
+  if (!encryption) {
+    return frame;
+  }
+
+  return encryptDlmsFrame({ ...encryption, data: frame });
+};
+
+/**
+ * Builds a DLMS telegram (one or more HDLC frames) that can be parsed by the `DlmsStreamParser`.
+ * When the contents don't fit in a single HDLC frame, they are split over multiple segmented
+ * frames.
+ */
+export const buildDlmsTelegram = ({
+  hdlc = {},
+  ...options
+}: DlmsTelegramBuilderOptions & {
+  hdlc?: Omit<Parameters<typeof encodeHdlcFrame>[0], 'content' | 'segmentation'> & {
+    /** Maximum number of content bytes per HDLC frame */
+    maxContentLength?: number;
+  };
+}) => {
+  const {
+    maxContentLength = HDLC_MAX_FRAME_LENGTH - HDLC_HEADER_LENGTH - HDLC_FOOTER_LENGTH + 2,
+    ...frameOptions
+  } = hdlc;
+
+  // The LLC header is only present in the first frame.
+  const content = Buffer.concat([
+    Buffer.from([HDLC_LLC_DESTINATION, HDLC_LLC_SOURCE, HDLC_LLC_QUALITY]),
+    encodeDLMSContent(options),
+  ]);
+
+  const frames: Buffer[] = [];
+
+  for (let index = 0; index < content.length; index += maxContentLength) {
+    frames.push(
+      encodeHdlcFrame({
+        ...frameOptions,
+        content: content.subarray(index, index + maxContentLength),
+        segmentation: index + maxContentLength < content.length,
+      }),
+    );
+  }
+
+  return Buffer.concat(frames);
+};
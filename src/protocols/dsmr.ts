@@ -1,16 +1,18 @@
 import { decryptDlmsFrame } from './encryption.js';
-import { SmartMeterParserError } from '../util/errors.js';
-import { CosemLibrary } from './cosem.js';
-import { parseObisCodeFromString } from './obis-code.js';
+import { SmartMeterCrcError, SmartMeterParserError } from '../util/errors.js';
+import { CosemLibrary, CosemLibraryInstance } from './cosem.js';
+import { ObisCode, obisCodeToString, parseObisCodeFromString } from './obis-code.js';
 import { calculateCrc16Arc } from '../util/crc.js';
-import { BaseParserResult } from '../util/base-result.js';
+import { BaseParserResult, CosemObject, CrcPolicy, MbusReading } from '../util/base-result.js';
+import { dateToLocalTime, resolveTimezone } from '../util/timezone.js';
 
-export type DsmrParserOptions =
+export type DsmrParserOptions = (
   | {
       /** Raw DSMR telegram */
       telegram: string;
       /** Enable the encryption detection mechanism. Enabled by default */
       decryptionKey?: never;
+      authenticationKey?: never;
       additionalAuthenticatedData?: never;
       encoding?: never;
     }
@@ -19,11 +21,28 @@ export type DsmrParserOptions =
       telegram: Buffer;
       /** Decryption key */
       decryptionKey?: Buffer;
-      /** AAD */
+      /** Authentication key, used to verify the GCM tag */
+      authenticationKey?: Buffer;
+      /** AAD, an AAD of 16 bytes is used as the authentication key */
       additionalAuthenticatedData?: Buffer;
       /** Encoding of the data in the buffer, defaults to binary */
       encoding?: BufferEncoding;
-    };
+    }
+) & {
+  /**
+   * Interpret the timestamps as local time in this IANA timezone, using the W/S suffix to resolve
+   * the ambiguous hour when daylight saving time ends. Defaults to `Europe/Amsterdam` (also used
+   * for `true`), use `false` to parse the timestamps as if they are UTC.
+   */
+  timezone?: string | boolean;
+  /** COSEM library used to map the OBIS codes, defaults to {@link CosemLibrary} */
+  cosemLibrary?: CosemLibraryInstance;
+  /**
+   * How a telegram with an invalid CRC is handled, defaults to `lenient`. Telegrams without a CRC
+   * (DSMR 2 and 3) are never rejected.
+   */
+  crcPolicy?: CrcPolicy;
+};
 
 export type DsmrParserResult = BaseParserResult & {
   dsmr: {
@@ -73,45 +92,130 @@ export const isDsmrCrcValid = ({ telegram, crc }: { telegram: string; crc: numbe
   return calculatedCrc === crc;
 };
 
+/** Parses a line that consists of a single value like "(1234.56*unit)" or "(string)". */
+const SingleValueRegex = /^\(([^()]*)\)$/;
+
+const addDsmrCosemObject = (
+  result: DsmrParserResult,
+  obisCode: ObisCode,
+  {
+    value,
+    unit = null,
+    rawType,
+  }: Pick<CosemObject, 'value' | 'rawType'> & { unit?: string | null },
+) => {
+  result.cosem.objects[obisCodeToString(obisCode)] = {
+    value,
+    unit,
+    scaler: null,
+    rawType,
+    source: 'dsmr',
+  };
+};
+
+/** Adds a COSEM object for a line that isn't known by the COSEM library, based on its format. */
+const addUnknownDsmrCosemObject = (result: DsmrParserResult, obisCode: ObisCode, value: string) => {
+  const singleValue = SingleValueRegex.exec(value);
+
+  if (!singleValue) {
+    addDsmrCosemObject(result, obisCode, { value, rawType: 'raw' });
+    return;
+  }
+
+  const numberValue = NumberTypeRegex.exec(value);
+
+  if (numberValue?.[1] && !isNaN(parseFloat(numberValue[1]))) {
+    addDsmrCosemObject(result, obisCode, {
+      value: parseFloat(numberValue[1]),
+      unit: numberValue[2] ? numberValue[2].slice(1) : null,
+      rawType: 'number',
+    });
+    return;
+  }
+
+  addDsmrCosemObject(result, obisCode, { value: singleValue[1], rawType: 'string' });
+};
+
 const decodeDsmrCosemLine = ({
   line,
   lines,
   lineNumber,
+  timezone,
+  cosemLibrary,
+  dropInvalidLines,
   result,
 }: {
   line: string;
   lines: string[];
   lineNumber: number;
+  timezone?: string;
+  cosemLibrary: CosemLibraryInstance;
+  /** Leave lines that fail format validation out of the result */
+  dropInvalidLines: boolean;
   result: DsmrParserResult;
 }) => {
+  const addFormatDiagnostic = (message: string) => {
+    result.diagnostics.push({
+      type: 'format',
+      message,
+      line: lineNumber,
+      content: line,
+      ...(dropInvalidLines && { dropped: true }),
+    });
+  };
+
   const { obisCode, consumedChars } = parseObisCodeFromString(line);
 
   if (obisCode === null) {
+    // Lines starting with a value belong to the previous line (e.g. the gas reading in DSMR 2 & 3)
+    if (!line.startsWith('(')) {
+      addFormatDiagnostic('Line does not start with an OBIS code');
+
+      if (dropInvalidLines) {
+        return false;
+      }
+    }
+
     result.dsmr.unknownLines = result.dsmr.unknownLines ?? [];
     result.dsmr.unknownLines.push(line);
     return false;
   }
 
-  const parser = CosemLibrary.getParser(obisCode);
+  const parser = cosemLibrary.getParser(obisCode);
+  const lineWithoutObisCode = line.slice(consumedChars, line.length);
+
+  /** Adds a line of which the value doesn't match the format of its parser. */
+  const addInvalidLine = () => {
+    addFormatDiagnostic(
+      `Invalid ${parser?.parameterType ?? 'unknown'} value for ${obisCodeToString(obisCode)}`,
+    );
+
+    if (dropInvalidLines) {
+      return false;
+    }
+
+    result.cosem.unknownObjects.push(line);
+    addUnknownDsmrCosemObject(result, obisCode, lineWithoutObisCode);
+    return false;
+  };
 
   if (!parser) {
     result.cosem.unknownObjects.push(line);
+    addUnknownDsmrCosemObject(result, obisCode, lineWithoutObisCode);
     return false;
   }
 
-  const lineWithoutObisCode = line.slice(consumedChars, line.length);
-
   switch (parser.parameterType) {
     case 'string': {
       const regexResult = StringTypeRegex.exec(lineWithoutObisCode);
 
       if (!regexResult) {
-        result.cosem.unknownObjects.push(line);
-        return false;
+        return addInvalidLine();
       }
       result.cosem.knownObjects.push(line);
 
       const valueString = regexResult[1] ?? '';
+      addDsmrCosemObject(result, obisCode, { value: valueString, rawType: 'string' });
 
       parser.callback({
         result,
@@ -121,6 +225,7 @@ const decodeDsmrCosemLine = ({
           line,
           lines,
           lineNumber,
+          timezone,
         },
       });
       return true;
@@ -129,8 +234,7 @@ const decodeDsmrCosemLine = ({
       const regexResult = NumberTypeRegex.exec(lineWithoutObisCode);
 
       if (!regexResult) {
-        result.cosem.unknownObjects.push(line);
-        return false;
+        return addInvalidLine();
       }
       result.cosem.knownObjects.push(line);
 
@@ -142,6 +246,8 @@ const decodeDsmrCosemLine = ({
         valueNumber = 0;
       }
 
+      addDsmrCosemObject(result, obisCode, { value: valueNumber, unit, rawType: 'number' });
+
       parser.callback({
         result,
         obisCode,
@@ -152,6 +258,7 @@ const decodeDsmrCosemLine = ({
           line,
           lines,
           lineNumber,
+          timezone,
         },
       });
 
@@ -159,6 +266,7 @@ const decodeDsmrCosemLine = ({
     }
     case 'raw': {
       result.cosem.knownObjects.push(line);
+      addDsmrCosemObject(result, obisCode, { value: lineWithoutObisCode, rawType: 'raw' });
       parser.callback({
         result,
         obisCode,
@@ -167,6 +275,7 @@ const decodeDsmrCosemLine = ({
           line,
           lines,
           lineNumber,
+          timezone,
         },
       });
       return true;
@@ -175,12 +284,12 @@ const decodeDsmrCosemLine = ({
       const regexResult = OctetStringTypeRegex.exec(lineWithoutObisCode);
 
       if (!regexResult) {
-        result.cosem.unknownObjects.push(line);
-        return false;
+        return addInvalidLine();
       }
       result.cosem.knownObjects.push(line);
 
       const valueString = regexResult[1] ?? '';
+      addDsmrCosemObject(result, obisCode, { value: valueString, rawType: 'octet_string' });
 
       parser.callback({
         result,
@@ -198,7 +307,7 @@ const decodeDsmrCosemLine = ({
 /**
  * Parse a DSMR telegram into a structured object.
  *
- * @throws If CRC validation fails
+ * @throws {SmartMeterCrcError} If CRC validation fails and the CRC policy is `strict`
  */
 export const parseDsmr = (options: DsmrParserOptions): DsmrParserResult => {
   let telegram: string;
@@ -212,6 +321,7 @@ export const parseDsmr = (options: DsmrParserOptions): DsmrParserResult => {
     const { content, error } = decryptDlmsFrame({
       data: options.telegram,
       key: options.decryptionKey,
+      authenticationKey: options.authenticationKey,
       additionalAuthenticatedData: options.additionalAuthenticatedData,
     });
 
@@ -220,6 +330,7 @@ export const parseDsmr = (options: DsmrParserOptions): DsmrParserResult => {
   }
 
   const lines = telegram.split(CRLF);
+  const timezone = resolveTimezone(options.timezone);
 
   const result: DsmrParserResult = {
     dsmr: {
@@ -232,14 +343,46 @@ export const parseDsmr = (options: DsmrParserOptions): DsmrParserResult => {
     cosem: {
       unknownObjects: [],
       knownObjects: [],
+      objects: {},
     },
     metadata: {},
     electricity: {},
     mBus: {},
+    diagnostics: [],
   };
 
   if (!result.dsmr) throw new Error('Invalid State.');
 
+  // The CRC is validated before the lines are decoded, so the CRC policy can be applied to them.
+  const crcLineNumber = lines.findIndex((line) => line.startsWith('!') && line.length > 1);
+
+  if (crcLineNumber !== -1) {
+    const crcLine = lines[crcLineNumber];
+    const crc = parseInt(crcLine.slice(1, crcLine.length), 16);
+
+    result.dsmr.crc = {
+      value: crc,
+      valid: isDsmrCrcValid({ telegram, crc }),
+    };
+    result.crcValid = result.dsmr.crc.valid;
+
+    if (!result.crcValid) {
+      result.diagnostics.push({
+        type: 'crc',
+        message: `CRC ${crcLine.slice(1, crcLine.length)} does not match the telegram`,
+        line: crcLineNumber,
+        content: crcLine,
+      });
+
+      if (options.crcPolicy === 'strict') {
+        // A failed decryption also results in an invalid CRC, report the cause instead.
+        throw decryptError ?? new SmartMeterCrcError(result.diagnostics);
+      }
+    }
+  }
+
+  const dropInvalidLines = options.crcPolicy === 'repair' && result.crcValid === false;
+
   let objectsParsed = 0;
 
   for (const [lineNumber, line] of lines.entries()) {
@@ -249,13 +392,7 @@ export const parseDsmr = (options: DsmrParserOptions): DsmrParserResult => {
       result.dsmr.header.z = line.slice(4, 5);
       result.dsmr.header.identifier = line.slice(5, line.length);
     } else if (line.startsWith('!')) {
-      // End of telegram
-      if (line.length > 1) {
-        result.dsmr.crc = {
-          value: parseInt(line.slice(1, line.length), 16),
-          valid: false,
-        };
-      }
+      // End of telegram, the CRC is already validated
     } else if (line === '' || line === '\0') {
       // skip empty lines
     } else {
@@ -265,6 +402,9 @@ export const parseDsmr = (options: DsmrParserOptions): DsmrParserResult => {
         line,
         lines,
         lineNumber,
+        timezone,
+        cosemLibrary: options.cosemLibrary ?? CosemLibrary,
+        dropInvalidLines,
       });
 
       if (isLineParsed) {
@@ -273,15 +413,6 @@ export const parseDsmr = (options: DsmrParserOptions): DsmrParserResult => {
     }
   }
 
-  if (result.dsmr.crc !== undefined) {
-    result.dsmr.crc.valid = isDsmrCrcValid({
-      telegram,
-      crc: result.dsmr.crc.value,
-    });
-
-    result.crcValid = result.dsmr.crc.valid;
-  }
-
   if (objectsParsed === 0) {
     // If we're unable to parse the data and we have a decryption error,
     // the error is probably in the decryption.
@@ -294,3 +425,239 @@ export const parseDsmr = (options: DsmrParserOptions): DsmrParserResult => {
 
   return result;
 };
+
+export type DsmrTelegramObject = {
+  /** OBIS code of the object, e.g. `1-0:1.8.1` */
+  obisCode: ObisCode | string;
+  /** Values of the object, each value is wrapped in parentheses. E.g. `['123456.789*kWh']` */
+  values: (string | number)[];
+};
+
+export type DsmrTelegramBuilderOptions = {
+  /** Header of the telegram, e.g. `ISk5\2MT382-1000` or the header of a parsed telegram. */
+  header: string | DsmrParserResult['dsmr']['header'];
+  /** COSEM objects that are added to the telegram, in the given order. */
+  objects?: DsmrTelegramObject[];
+  /** A parse result of which the known fields are added to the telegram, after `objects`. */
+  result?: BaseParserResult;
+  /** Add a CRC to the end of the telegram (DSMR 4 and up). Enabled by default. */
+  crc?: boolean;
+  /**
+   * Timezone of the timestamps of `result` that don't have a raw timestamp, like the `timezone`
+   * option of {@link parseDsmr}. Defaults to `Europe/Amsterdam`.
+   */
+  timezone?: string | boolean;
+};
+
+const formatDsmrNumber = (value: number, integerDigits: number, decimals: number) => {
+  const [integer, fraction] = Math.abs(value).toFixed(decimals).split('.');
+  const sign = value < 0 ? '-' : '';
+
+  return `${sign}${integer.padStart(integerDigits, '0')}${fraction ? `.${fraction}` : ''}`;
+};
+
+const formatDsmrTimestamp = (value: Date, timezone: string | undefined, dst?: boolean) => {
+  const pad = (num: number) => String(num).padStart(2, '0');
+
+  // Without a timezone the date is formatted as UTC, winter time is assumed unless the result says
+  // otherwise.
+  const local = timezone
+    ? dateToLocalTime(value, timezone)
+    : { localTimestamp: value.getTime(), dst: dst ?? false };
+  const date = new Date(local.localTimestamp);
+
+  return (
+    pad(date.getUTCFullYear() % 100) +
+    pad(date.getUTCMonth() + 1) +
+    pad(date.getUTCDate()) +
+    pad(date.getUTCHours()) +
+    pad(date.getUTCMinutes()) +
+    pad(date.getUTCSeconds()) +
+    (local.dst ? 'S' : 'W')
+  );
+};
+
+/** Converts the known fields of a parse result back into DSMR COSEM objects. */
+const getDsmrObjectsFromResult = (result: BaseParserResult, timezone: string | undefined) => {
+  const objects: DsmrTelegramObject[] = [];
+  const add = (obisCode: string, ...values: (string | number)[]) => {
+    objects.push({ obisCode, values });
+  };
+  const addPhases = (
+    physical: [number, number, number],
+    phases: { l1?: number; l2?: number; l3?: number } | undefined,
+    format: (value: number) => string,
+  ) => {
+    if (phases?.l1 !== undefined) add(`1-0:${physical[0]}.7.0`, format(phases.l1));
+    if (phases?.l2 !== undefined) add(`1-0:${physical[1]}.7.0`, format(phases.l2));
+    if (phases?.l3 !== undefined) add(`1-0:${physical[2]}.7.0`, format(phases.l3));
+  };
+
+  const formatEnergy = (value: number) => `${formatDsmrNumber(value / 1000, 6, 3)}*kWh`;
+  const formatPower = (value: number) => `${formatDsmrNumber(value / 1000, 2, 3)}*kW`;
+  const formatCount = (value: number) => formatDsmrNumber(value, 5, 0);
+
+  const { metadata, electricity } = result;
+  const { events } = metadata;
+
+  if (metadata.dsmrVersion !== undefined) {
+    add('1-3:0.2.8', Math.round(metadata.dsmrVersion * 10));
+  }
+  const timestamp =
+    metadata.timestampRaw ??
+    (metadata.timestamp &&
+      formatDsmrTimestamp(metadata.timestamp, timezone, metadata.timestampDst));
+
+  if (timestamp !== undefined) {
+    add('0-0:1.0.0', timestamp);
+  }
+  if (result.cosem.id !== undefined) {
+    add('0-0:42.0.0', Buffer.from(result.cosem.id, 'utf-8').toString('hex').toUpperCase());
+  }
+  if (metadata.equipmentId !== undefined) {
+    add('0-0:96.1.1', metadata.equipmentId);
+  }
+  if (metadata.serialNumber !== undefined) {
+    add('0-0:96.1.2', Buffer.from(metadata.serialNumber, 'utf-8').toString('hex').toUpperCase());
+  }
+
+  if (electricity.total?.received !== undefined) {
+    add('1-0:1.8.0', formatEnergy(electricity.total.received));
+  }
+  if (electricity.total?.returned !== undefined) {
+    add('1-0:2.8.0', formatEnergy(electricity.total.returned));
+  }
+  for (const [tariff, values] of Object.entries(electricity.tariffs ?? {})) {
+    if (values?.received !== undefined) add(`1-0:1.8.${tariff}`, formatEnergy(values.received));
+  }
+  for (const [tariff, values] of Object.entries(electricity.tariffs ?? {})) {
+    if (values?.returned !== undefined) add(`1-0:2.8.${tariff}`, formatEnergy(values.returned));
+  }
+  if (electricity.currentTariff !== undefined) {
+    add('0-0:96.14.0', formatDsmrNumber(electricity.currentTariff, 4, 0));
+  }
+  if (electricity.powerReceivedTotal !== undefined) {
+    add('1-0:1.7.0', formatPower(electricity.powerReceivedTotal));
+  }
+  if (electricity.powerReturnedTotal !== undefined) {
+    add('1-0:2.7.0', formatPower(electricity.powerReturnedTotal));
+  }
+
+  if (events?.powerFailures !== undefined) {
+    add('0-0:96.7.21', formatCount(events.powerFailures));
+  }
+  if (events?.longPowerFailures !== undefined) {
+    add('0-0:96.7.9', formatCount(events.longPowerFailures));
+  }
+  if (events?.powerFailureLog !== undefined) {
+    add(
+      '1-0:99.97.0',
+      events.powerFailureLog.length,
+      '0-0:96.7.19',
+      ...events.powerFailureLog.flatMap(({ end, durationSeconds }) => [
+        formatDsmrTimestamp(end, timezone),
+        `${formatDsmrNumber(durationSeconds, 10, 0)}*s`,
+      ]),
+    );
+  }
+  for (const [phase, physical] of [
+    ['l1', 32],
+    ['l2', 52],
+    ['l3', 72],
+  ] as const) {
+    const value = events?.voltageSags?.[phase];
+    if (value !== undefined) add(`1-0:${physical}.32.0`, formatCount(value));
+  }
+  for (const [phase, physical] of [
+    ['l1', 32],
+    ['l2', 52],
+    ['l3', 72],
+  ] as const) {
+    const value = events?.voltageSwells?.[phase];
+    if (value !== undefined) add(`1-0:${physical}.36.0`, formatCount(value));
+  }
+  if (metadata.textMessage !== undefined) {
+    add('0-0:96.13.0', metadata.textMessage);
+  }
+  if (metadata.numericMessage !== undefined) {
+    add('0-0:96.13.1', metadata.numericMessage);
+  }
+
+  addPhases([32, 52, 72], electricity.voltage, (value) => `${formatDsmrNumber(value, 3, 1)}*V`);
+  addPhases(
+    [31, 51, 71],
+    electricity.current,
+    (value) => `${formatDsmrNumber(value, 3, Number.isInteger(value) ? 0 : 2)}*A`,
+  );
+  addPhases([21, 41, 61], electricity.powerReceived, formatPower);
+  addPhases([22, 42, 62], electricity.powerReturned, formatPower);
+
+  for (const [busId, device] of Object.entries(result.mBus)) {
+    if (device.deviceType !== undefined) {
+      add(`0-${busId}:24.1.0`, formatDsmrNumber(device.deviceType, 3, 0));
+    }
+    if (device.equipmentId !== undefined) {
+      add(`0-${busId}:96.1.0`, device.equipmentId);
+    }
+    // Results that weren't parsed (e.g. created by hand) might only have the value of the device.
+    const channels: Partial<Record<number, Partial<MbusReading>>> = device.channels ?? {
+      1: device,
+    };
+
+    for (const [channel, reading] of Object.entries(channels)) {
+      const timestamp =
+        reading?.timestampRaw ??
+        (reading?.timestamp &&
+          formatDsmrTimestamp(reading.timestamp, timezone, reading.timestampDst));
+
+      // The value can only be represented together with its timestamp.
+      if (reading?.value !== undefined && timestamp !== undefined) {
+        add(
+          `0-${busId}:24.2.${channel}`,
+          timestamp,
+          `${formatDsmrNumber(reading.value, 5, 3)}*${reading.unit ?? 'm3'}`,
+        );
+      }
+    }
+  }
+
+  return objects;
+};
+
+/**
+ * Build a DSMR P1 telegram from a header and a list of COSEM objects and/or a parse result. The
+ * telegram ends with a CRC (see {@link isDsmrCrcValid}) unless it is disabled.
+ *
+ * @returns The telegram, use {@link DEFAULT_FRAME_ENCODING} to convert it to a buffer.
+ */
+export const buildDsmrTelegram = ({
+  header,
+  objects = [],
+  result,
+  crc = true,
+  timezone,
+}: DsmrTelegramBuilderOptions) => {
+  const headerString =
+    typeof header === 'string' ? header : `${header.xxx}${header.z}${header.identifier}`;
+
+  const allObjects = [
+    ...objects,
+    ...(result ? getDsmrObjectsFromResult(result, resolveTimezone(timezone)) : []),
+  ];
+
+  const lines = allObjects.map(({ obisCode, values }) => {
+    const obisCodeString = typeof obisCode === 'string' ? obisCode : obisCodeToString(obisCode);
+
+    return `${obisCodeString}${values.map((value) => `(${value})`).join('')}`;
+  });
+
+  const telegram = `/${headerString}${CRLF}${CRLF}${lines.map((line) => line + CRLF).join('')}!`;
+
+  if (!crc) {
+    return telegram + CRLF;
+  }
+
+  const calculatedCrc = calculateCrc16Arc(Buffer.from(telegram, DEFAULT_FRAME_ENCODING));
+
+  return `${telegram}${calculatedCrc.toString(16).toUpperCase().padStart(4, '0')}${CRLF}`;
+};
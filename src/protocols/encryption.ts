@@ -1,18 +1,25 @@
 import * as crypto from 'node:crypto';
-import { SmartMeterDecodeError, SmartMeterDecryptionError } from './../util/errors.js';
+import {
+  SmartMeterAuthenticationError,
+  SmartMeterDecodeError,
+  SmartMeterDecryptionError,
+} from './../util/errors.js';
 import { getDlmsObjectCount } from './dlms-datatype.js';
+import type { BaseParserResult, EncryptionInfo } from '../util/base-result.js';
+import type { SmartMeterReplayGuard } from '../util/replay-guard.js';
+import type { SmartMeterKeyRing } from '../util/key-ring.js';
 
 /**
  * Encrypted DSMR/DLMS frames have the following format:
  *
  * | Byte   | Description          | Example                             |
  * | ------ | -------------------- | ----------------------------------- |
- * | 0      | SOF                  | DB (fixed)                          |
+ * | 0      | SOF                  | DB (or DC)                          |
  * | 1      | System Title Length  | 08 (fixed)                          |
  * | 2-9    | System Title         | 00 11 22 33 44 55 66 77             |
  * | 10     | Content Length Start | 82 (fixed)                          |
  * | 11-12  | Length of the frame  | 00 11                               |
- * | 13     | SOF Frame Counter    | 30 (fixed)                          |
+ * | 13     | Security Type        | 30 (20 or 10)                       |
  * | 14-17  | Frame Counter        | 00 11 22 33                         |
  * | 18-n   | Frame                | <Encrypted DSMR frame>              |
  * | n-n+12 | GCM Tag              | 00 11 22 33 44 55 66 77 88 99 AA BB |
@@ -21,17 +28,48 @@ import { getDlmsObjectCount } from './dlms-datatype.js';
  * encryption key from the utility company. The IV is the concatenation of the system title and the
  * frame counter.
  *
- * Length of frame is 17 (header length, excluding sof) + length of the encrypted DSMR frame. GCM
- * tag length is excluded.
+ * Length of frame is 5 (security type and frame counter) + length of the encrypted DSMR frame + 12
+ * (GCM tag). Frames that are encrypted but not authenticated (security type 0x20) don't have a GCM
+ * tag.
+ *
+ * Frames that are authenticated but not encrypted (security type 0x10) contain the plain frame,
+ * followed by a GMAC tag over the security type, the authentication key and the plain frame.
+ *
+ * Besides general-glo-ciphering (0xDB), meters can use general-ded-ciphering (0xDC, with a
+ * dedicated key). The layout of these frames is the same.
+ *
+ * Tag 0xDF isn't supported: the DLMS Green Book assigns it to general-signing, which has a
+ * different layout (transaction id, originator and recipient system titles, date-time, other
+ * information, content and signature) and signs the content instead of encrypting it. Parsing it
+ * like a 0xDB frame would read the transaction id as the system title, so these frames are not
+ * recognized as the start of an encrypted frame.
  */
 
 export const ENCRYPTED_DLMS_TELEGRAM_SOF = 0xdb; // DLMS_COMMAND_GENERAL_GLO_CIPHERING
+export const ENCRYPTED_DLMS_DED_TELEGRAM_SOF = 0xdc; // DLMS_COMMAND_GENERAL_DED_CIPHERING
 export const ENCRYPTED_DLMS_AUTHENTICATION_ENCRYPTION_TAG = 0x30; // DLMS_SECURITY_AUTHENTICATION_ENCRYPTION
 export const ENCRYPTED_DLMS_ENCRYPTION_TAG = 0x20; // DLMS_SECURITY_ENCRYPTION
+export const ENCRYPTED_DLMS_AUTHENTICATION_TAG = 0x10; // DLMS_SECURITY_AUTHENTICATION
 export const ENCRYPTED_DLMS_SYSTEM_TITLE_LEN = 8;
 export const ENCRYPTED_DLMS_GCM_TAG_LEN = 12;
 export const ENCRYPTED_DLMS_HEADER_LEN = 18;
 export const ENCRYPTED_DLMS_DEFAULT_AAD = Buffer.from('00112233445566778899aabbccddeeff', 'hex');
+/** The authentication key used by most meters, this is the same as the default AAD */
+export const ENCRYPTED_DLMS_DEFAULT_AUTHENTICATION_KEY = ENCRYPTED_DLMS_DEFAULT_AAD;
+
+const ENCRYPTED_DLMS_TELEGRAM_SOFS = [ENCRYPTED_DLMS_TELEGRAM_SOF, ENCRYPTED_DLMS_DED_TELEGRAM_SOF];
+
+const ENCRYPTED_DLMS_SECURITY_TYPES = [
+  ENCRYPTED_DLMS_AUTHENTICATION_ENCRYPTION_TAG,
+  ENCRYPTED_DLMS_ENCRYPTION_TAG,
+  ENCRYPTED_DLMS_AUTHENTICATION_TAG,
+];
+
+/** Returns true when the byte is the tag of a ciphered frame (0xDB or 0xDC). */
+export const isEncryptedDlmsSof = (byte: number) => ENCRYPTED_DLMS_TELEGRAM_SOFS.includes(byte);
+
+/** Returns the index of the first ciphered frame tag in the data, or -1 when not found. */
+export const indexOfEncryptedDlmsSof = (data: Buffer) => data.findIndex(isEncryptedDlmsSof);
 
 /**
  * @param data A buffer that starts with the header (bytes 0-16) of the E-Meter P1 frame
@@ -45,7 +83,7 @@ export const decodeEncryptionHeader = (data: Buffer) => {
   let index = 0;
 
   const sof = data[index++];
-  if (sof !== ENCRYPTED_DLMS_TELEGRAM_SOF) {
+  if (!isEncryptedDlmsSof(sof)) {
     throw new SmartMeterDecodeError(`Invalid telegram sof 0x${sof.toString(16)}`);
   }
 
@@ -60,29 +98,58 @@ export const decodeEncryptionHeader = (data: Buffer) => {
   const { objectCount: frameLength, newIndex } = getDlmsObjectCount(data, index);
   index = newIndex;
 
-  // The entire header is 18 bytes long, but the SOF is not included in the frame length.
-  const contentLength = frameLength + 1 - ENCRYPTED_DLMS_HEADER_LEN;
-
   const securityType = data[index++];
-  if (
-    securityType !== ENCRYPTED_DLMS_AUTHENTICATION_ENCRYPTION_TAG &&
-    securityType !== ENCRYPTED_DLMS_ENCRYPTION_TAG
-  ) {
+  if (!ENCRYPTED_DLMS_SECURITY_TYPES.includes(securityType)) {
     throw new SmartMeterDecodeError(`Invalid security type 0x${securityType.toString(16)}`);
   }
 
+  // Frames that are only encrypted (and not authenticated) don't have a GCM tag.
+  const gcmTagLength =
+    securityType === ENCRYPTED_DLMS_ENCRYPTION_TAG ? 0 : ENCRYPTED_DLMS_GCM_TAG_LEN;
+
+  // The frame length includes the security type, the frame counter and the GCM tag.
+  const contentLength = frameLength - 5 - gcmTagLength;
+
   const frameCounter = data.subarray(index, index + 4);
   index += 4;
 
   return {
+    sof,
     systemTitle,
     frameCounter,
     securityType,
     contentLength,
+    gcmTagLength,
     consumedBytes: index,
   };
 };
 
+/** Converts a decoded header to the `encryption` property of the parser result. */
+export const getEncryptionInfo = (
+  header: ReturnType<typeof decodeEncryptionHeader>,
+): EncryptionInfo => {
+  return {
+    systemTitle: header.systemTitle.toString('hex'),
+    frameCounter: header.frameCounter.readUint32BE(0),
+    securityType: header.securityType,
+  };
+};
+
+/** Sets the `encryption` property of the parser result, when the frame was encrypted. */
+export const setEncryptionInfo = (
+  result: BaseParserResult,
+  encryption: EncryptionInfo | undefined,
+) => {
+  if (!encryption) return;
+
+  // Frames without a GCM tag can't be authenticated, the AAD isn't checked then.
+  if (encryption.authenticated !== undefined) {
+    result.additionalAuthenticatedDataValid = encryption.authenticated;
+  }
+
+  result.encryption = encryption;
+};
+
 /**
  * @param data A buffer that ends with the footer (bytes n-12 to n) of the E-Meter P1 frame
  * @returns Decoded footer
@@ -91,24 +158,110 @@ export const decodeEncryptionFooter = (
   data: Buffer,
   header: ReturnType<typeof decodeEncryptionHeader>,
 ) => {
-  if (data.length < ENCRYPTED_DLMS_GCM_TAG_LEN) {
+  if (data.length < header.gcmTagLength) {
     throw new SmartMeterDecodeError('Invalid footer length');
   }
 
   return {
     gcmTag: data.subarray(
       header.consumedBytes + header.contentLength,
-      header.consumedBytes + header.contentLength + ENCRYPTED_DLMS_GCM_TAG_LEN,
+      header.consumedBytes + header.contentLength + header.gcmTagLength,
     ),
   };
 };
 
-/** Decrypts the contents of an encrypted DSMR frame. */
+type DecryptedFrameContents = {
+  content: Buffer;
+  /** Set when the frame couldn't be decrypted or authenticated */
+  error?: SmartMeterDecryptionError;
+  /** Whether the tag of the frame was verified, not set for frames without a tag */
+  authenticated?: boolean;
+  /** Id of the key that authenticated the frame, only set when a key ring is used */
+  keyId?: string;
+};
+
+/**
+ * Builds the AAD of a frame, which is the security type followed by the authentication key. For
+ * backwards compatibility, an AAD of 16 bytes is used as the authentication key. Other AADs are
+ * used as is.
+ */
+const getAdditionalAuthenticatedData = ({
+  securityType,
+  authenticationKey,
+  additionalAuthenticatedData,
+}: {
+  securityType: number;
+  authenticationKey?: Buffer;
+  additionalAuthenticatedData?: Buffer;
+}) => {
+  const key =
+    authenticationKey ??
+    (additionalAuthenticatedData?.length === 16 ? additionalAuthenticatedData : undefined);
+
+  if (!key) {
+    return additionalAuthenticatedData;
+  }
+
+  return Buffer.concat([Buffer.from([securityType]), key]);
+};
+
+/** Verifies the GMAC tag of a frame that is authenticated, but not encrypted. */
+const verifyFrameContents = ({
+  data,
+  key,
+  iv,
+  gcmTag,
+  additionalAuthenticatedData,
+}: {
+  data: Buffer;
+  key: Buffer;
+  iv: Buffer;
+  gcmTag: Buffer;
+  additionalAuthenticatedData?: Buffer;
+}): DecryptedFrameContents => {
+  let cipher: crypto.DecipherGCM;
+
+  // The GMAC tag is a GCM tag without any encrypted data, the plain frame is part of the AAD.
+  try {
+    cipher = crypto.createDecipheriv('aes-128-gcm', key, iv, {
+      authTagLength: ENCRYPTED_DLMS_GCM_TAG_LEN,
+    });
+    cipher.setAuthTag(gcmTag);
+    cipher.setAAD(Buffer.concat([additionalAuthenticatedData ?? Buffer.alloc(0), data]));
+  } catch (error) {
+    return {
+      content: data,
+      error: new SmartMeterDecryptionError(error),
+      authenticated: false,
+    };
+  }
+
+  try {
+    cipher.final();
+  } catch (error) {
+    return {
+      content: data,
+      error: new SmartMeterAuthenticationError(error),
+      authenticated: false,
+    };
+  }
+
+  return {
+    content: data,
+    authenticated: true,
+  };
+};
+
+/**
+ * Decrypts the contents of an encrypted DSMR frame. The contents of frames that are only
+ * authenticated are returned as is, after verifying the GMAC tag.
+ */
 export const decryptFrameContents = ({
   data,
   header,
   footer,
   key,
+  authenticationKey,
   additionalAuthenticatedData,
 }: {
   /** The encrypted DSMR frame */
@@ -119,18 +272,36 @@ export const decryptFrameContents = ({
   footer: ReturnType<typeof decodeEncryptionFooter>;
   /** The encryption key */
   key: Buffer;
-  /** Optional additional authenticated data (AAD) to be used in the decryption. */
+  /** The authentication key, used to verify the GCM tag */
+  authenticationKey?: Buffer;
+  /**
+   * Optional additional authenticated data (AAD) to be used in the decryption. An AAD of 16 bytes
+   * is used as the authentication key, prefer `authenticationKey` instead.
+   */
   additionalAuthenticatedData?: Buffer;
-}) => {
+}): DecryptedFrameContents => {
   if (data.length !== header.contentLength) {
     throw new Error(`Invalid frame length got ${data.length} expected ${header.contentLength}`);
   }
 
-  if (additionalAuthenticatedData?.length == 16) {
-    additionalAuthenticatedData = Buffer.concat([Buffer.from([0x30]), additionalAuthenticatedData]);
-  }
+  additionalAuthenticatedData = getAdditionalAuthenticatedData({
+    securityType: header.securityType,
+    authenticationKey,
+    additionalAuthenticatedData,
+  });
 
   const iv = Buffer.concat([header.systemTitle, header.frameCounter]);
+
+  if (header.securityType === ENCRYPTED_DLMS_AUTHENTICATION_TAG) {
+    return verifyFrameContents({
+      data,
+      key,
+      iv,
+      gcmTag: footer.gcmTag,
+      additionalAuthenticatedData,
+    });
+  }
+
   let cipher: crypto.DecipherGCM;
   let content = Buffer.alloc(0);
 
@@ -142,7 +313,10 @@ export const decryptFrameContents = ({
       authTagLength: ENCRYPTED_DLMS_GCM_TAG_LEN,
     });
     cipher.setAutoPadding(false);
-    cipher.setAuthTag(footer.gcmTag);
+
+    if (footer.gcmTag.length > 0) {
+      cipher.setAuthTag(footer.gcmTag);
+    }
 
     if (additionalAuthenticatedData) {
       cipher.setAAD(additionalAuthenticatedData);
@@ -153,6 +327,14 @@ export const decryptFrameContents = ({
     return {
       content,
       error: new SmartMeterDecryptionError(error),
+      ...(footer.gcmTag.length > 0 && { authenticated: false }),
+    };
+  }
+
+  // Without a GCM tag there is nothing to authenticate.
+  if (footer.gcmTag.length === 0) {
+    return {
+      content,
     };
   }
 
@@ -164,43 +346,204 @@ export const decryptFrameContents = ({
   } catch (error) {
     return {
       content,
-      error: new SmartMeterDecryptionError(error),
+      error: new SmartMeterAuthenticationError(error),
+      authenticated: false,
     };
   }
 
   return {
     content,
+    authenticated: true,
   };
 };
 
-/** Decrypts a full encrypted DLMS frame */
+/**
+ * Decrypts the contents of an encrypted DSMR frame with the keys of a key ring. The first key that
+ * authenticates the frame is used. Frames without a GCM tag can't be verified, these are decrypted
+ * with the first candidate and no `keyId` is reported. When no key matches, the `key` is used (if
+ * set).
+ */
+export const decryptFrameContentsWithKeyRing = ({
+  keyRing,
+  key,
+  ...options
+}: Omit<Parameters<typeof decryptFrameContents>[0], 'key'> & {
+  keyRing: SmartMeterKeyRing;
+  /** Key that is used when none of the keys of the key ring matches */
+  key?: Buffer;
+}): DecryptedFrameContents => {
+  const systemTitle = options.header.systemTitle.toString('hex');
+  const candidates = keyRing.getCandidates(systemTitle);
+
+  for (const candidate of candidates) {
+    const decrypted = decryptFrameContents({
+      ...options,
+      key: candidate.key,
+      authenticationKey: candidate.authenticationKey ?? options.authenticationKey,
+    });
+
+    if (decrypted.authenticated === false) {
+      continue;
+    }
+
+    // Without a GCM tag it isn't known whether the key is the right one.
+    if (!decrypted.authenticated) {
+      return decrypted;
+    }
+
+    keyRing.setMatch(systemTitle, candidate);
+
+    return { ...decrypted, keyId: candidate.id };
+  }
+
+  return decryptFrameContents({ ...options, key: key ?? candidates.at(0)?.key ?? Buffer.alloc(0) });
+};
+
+/**
+ * Decrypts a full encrypted DLMS frame
+ *
+ * @throws {SmartMeterReplayError} If a replay guard is given and the frame counter didn't increase
+ */
 export const decryptDlmsFrame = ({
   data,
   key,
+  keyRing,
+  authenticationKey,
   additionalAuthenticatedData,
+  replayGuard,
 }: {
   data: Buffer;
-  key: Buffer;
+  /** Decryption key, optional when a key ring is used */
+  key?: Buffer;
+  /** When set, the keys of the key ring are tried before `key` */
+  keyRing?: SmartMeterKeyRing;
+  authenticationKey?: Buffer;
   additionalAuthenticatedData?: Buffer;
+  replayGuard?: SmartMeterReplayGuard;
 }) => {
   const header = decodeEncryptionHeader(data);
+  const encryption = getEncryptionInfo(header);
+  replayGuard?.check(encryption);
+
   const footer = decodeEncryptionFooter(data, header);
   const encryptedContent = data.subarray(
     header.consumedBytes,
     header.consumedBytes + header.contentLength,
   );
-  const { content, error } = decryptFrameContents({
+  const decryptOptions = {
     data: encryptedContent,
     header,
     footer,
     key,
+    authenticationKey,
     additionalAuthenticatedData,
-  });
+  };
+  const { content, error, authenticated, keyId } = keyRing
+    ? decryptFrameContentsWithKeyRing({ ...decryptOptions, keyRing })
+    : decryptFrameContents({ ...decryptOptions, key: key ?? Buffer.alloc(0) });
+
+  // Frames without a verified GCM tag could be forged, their frame counter isn't remembered.
+  if (authenticated === true) {
+    replayGuard?.accept(encryption);
+  }
 
   return {
     header,
     footer,
+    encryption: {
+      ...encryption,
+      ...(authenticated !== undefined && { authenticated }),
+      ...(keyId !== undefined && { keyId }),
+    },
     content,
     error,
   };
 };
+
+/** Encrypts a DLMS frame into a general-glo-ciphering frame, the inverse of {@link decryptDlmsFrame} */
+export const encryptDlmsFrame = ({
+  data,
+  key,
+  systemTitle,
+  frameCounter,
+  authenticationKey,
+  additionalAuthenticatedData,
+  securityType = ENCRYPTED_DLMS_AUTHENTICATION_ENCRYPTION_TAG,
+  sof = ENCRYPTED_DLMS_TELEGRAM_SOF,
+}: {
+  data: Buffer;
+  key: Buffer;
+  /** System title of the meter, must be 8 bytes long */
+  systemTitle: Buffer;
+  /** Frame counter, either as a number or as 4 bytes */
+  frameCounter: Buffer | number;
+  /** The authentication key, used to calculate the GCM tag */
+  authenticationKey?: Buffer;
+  /**
+   * Optional additional authenticated data (AAD) to be used in the encryption. An AAD of 16 bytes
+   * is used as the authentication key, prefer `authenticationKey` instead.
+   */
+  additionalAuthenticatedData?: Buffer;
+  /** Security type, only authenticated frames (0x30 and 0x10) include a GCM tag */
+  securityType?:
+    | typeof ENCRYPTED_DLMS_AUTHENTICATION_ENCRYPTION_TAG
+    | typeof ENCRYPTED_DLMS_ENCRYPTION_TAG
+    | typeof ENCRYPTED_DLMS_AUTHENTICATION_TAG;
+  /** Tag of the frame, defaults to general-glo-ciphering (0xDB) */
+  sof?: typeof ENCRYPTED_DLMS_TELEGRAM_SOF | typeof ENCRYPTED_DLMS_DED_TELEGRAM_SOF;
+}) => {
+  if (systemTitle.length !== ENCRYPTED_DLMS_SYSTEM_TITLE_LEN) {
+    throw new SmartMeterDecodeError(`Invalid system title length ${systemTitle.length}`);
+  }
+
+  if (typeof frameCounter === 'number') {
+    const frameCounterBuffer = Buffer.alloc(4);
+    frameCounterBuffer.writeUint32BE(frameCounter);
+    frameCounter = frameCounterBuffer;
+  }
+
+  additionalAuthenticatedData = getAdditionalAuthenticatedData({
+    securityType,
+    authenticationKey,
+    additionalAuthenticatedData,
+  });
+
+  const iv = Buffer.concat([systemTitle, frameCounter]);
+  const cipher = crypto.createCipheriv('aes-128-gcm', key, iv, {
+    authTagLength: ENCRYPTED_DLMS_GCM_TAG_LEN,
+  });
+
+  let encryptedContent: Buffer;
+
+  if (securityType === ENCRYPTED_DLMS_AUTHENTICATION_TAG) {
+    // The frame is not encrypted, it's only part of the data that is authenticated.
+    cipher.setAAD(Buffer.concat([additionalAuthenticatedData ?? Buffer.alloc(0), data]));
+    cipher.final();
+    encryptedContent = data;
+  } else {
+    if (additionalAuthenticatedData) {
+      cipher.setAAD(additionalAuthenticatedData);
+    }
+
+    encryptedContent = Buffer.concat([cipher.update(data), cipher.final()]);
+  }
+
+  const gcmTag =
+    securityType === ENCRYPTED_DLMS_ENCRYPTION_TAG ? Buffer.alloc(0) : cipher.getAuthTag();
+
+  const header = Buffer.alloc(ENCRYPTED_DLMS_HEADER_LEN);
+
+  let index = 0;
+  header.writeUint8(sof, index++);
+  header.writeUint8(ENCRYPTED_DLMS_SYSTEM_TITLE_LEN, index++);
+  systemTitle.copy(header, index);
+  index += ENCRYPTED_DLMS_SYSTEM_TITLE_LEN;
+  // 0x82 is indicating that a 16 bit length follows.
+  header.writeUint8(0x82, index++);
+  header.writeUint16BE(5 + encryptedContent.length + gcmTag.length, index);
+  index += 2;
+  header.writeUint8(securityType, index++);
+  frameCounter.copy(header, index);
+
+  return Buffer.concat([header, encryptedContent, gcmTag]);
+};
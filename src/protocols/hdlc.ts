@@ -51,11 +51,11 @@
  * These are included in the test suite of this library as well (see {@link tests/telegrams/dlms})
  */
 
-import { BaseParserResult } from '../util/base-result.js';
 import { calculateCrc16IbmSdlc } from '../util/crc.js';
 import { SmartMeterError, SmartMeterUnknownMessageTypeError } from '../util/errors.js';
+import { DlmsParserResult } from './dlms.js';
 
-export type HdlcParserResult = BaseParserResult & {
+export type HdlcParserResult = DlmsParserResult & {
   hdlc: {
     headers: {
       destinationAddress: number;
@@ -72,18 +72,13 @@ export type HdlcParserResult = BaseParserResult & {
       };
     }[];
   };
-  dlms: {
-    invokeId: number;
-    timestamp: string; // TODO make this a date object
-    unknownObjects: string[];
-    payloadType: string;
-  };
 };
 
 export const HDLC_TELEGRAM_SOF_EOF = 0x7e;
 export const HDLC_FORMAT_START = 0xa; // HDLC format type 3
 export const HDLC_HEADER_LENGTH = 14;
 export const HDLC_FOOTER_LENGTH = 3;
+export const HDLC_MAX_FRAME_LENGTH = 0x7ff; // Excluding SOF/EOF
 export const HDLC_LLC_HEADER_LENGTH = 3;
 export const HDLC_LLC_DESTINATION = 0xe6;
 export const HDLC_LLC_SOURCE = 0xe7;
@@ -200,3 +195,70 @@ export const decodeHdlcFooter = (frame: Buffer) => {
     crcValid: calculatedCrc === crc,
   };
 };
+
+/** Inverse of {@link decodeHdlcAddress} */
+const encodeHdlcAddress = (address: number) => {
+  const bytes: number[] = [];
+
+  do {
+    bytes.unshift((address & 0x7f) << 1);
+    address >>= 7;
+  } while (address > 0);
+
+  if (bytes.length > 4) {
+    throw new SmartMeterError('HDLC address is too long');
+  }
+
+  // The LSB of the last byte marks the end of the address.
+  bytes[bytes.length - 1] |= 0b1;
+
+  return Buffer.from(bytes);
+};
+
+/**
+ * Wraps the frame contents in a HDLC frame, the inverse of {@link decodeHdlcHeader} and
+ * {@link decodeHdlcFooter}. The LLC header is not added, as it is part of the frame contents.
+ */
+export const encodeHdlcFrame = ({
+  content,
+  segmentation = false,
+  destinationAddress = 0x01,
+  sourceAddress = 0x02,
+  controlByte = 0x00,
+}: {
+  content: Buffer;
+  /** Set when the contents continue in the next HDLC frame */
+  segmentation?: boolean;
+  destinationAddress?: number;
+  sourceAddress?: number;
+  controlByte?: number;
+}) => {
+  const header = Buffer.concat([
+    Buffer.from([HDLC_TELEGRAM_SOF_EOF, 0x00, 0x00]),
+    encodeHdlcAddress(destinationAddress),
+    encodeHdlcAddress(sourceAddress),
+    Buffer.from([controlByte, 0x00, 0x00]),
+  ]);
+
+  // Frame length is total length - 2 (SOF and EOF)
+  const frameLength = header.length + content.length + HDLC_FOOTER_LENGTH - 2;
+
+  if (frameLength > HDLC_MAX_FRAME_LENGTH) {
+    throw new SmartMeterError('Frame length is too long to fit in HDLC');
+  }
+
+  header[1] = (HDLC_FORMAT_START << 4) | ((frameLength >> 8) & 0x07);
+  header[2] = frameLength & 0xff;
+
+  if (segmentation) {
+    header[1] |= 0x08;
+  }
+
+  // Don't include SOF in the checksum calculations
+  header.writeUint16LE(calculateCrc16IbmSdlc(header.subarray(1, -2)), header.length - 2);
+
+  const footer = Buffer.from([0x00, 0x00, HDLC_TELEGRAM_SOF_EOF]);
+  footer.writeUint16LE(calculateCrc16IbmSdlc(Buffer.concat([header.subarray(1), content])), 0);
+
+  return Buffer.concat([header, content, footer]);
+};
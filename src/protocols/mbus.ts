@@ -0,0 +1,133 @@
+/**
+ * M-Bus (Meter-Bus, EN 13757) long frame format:
+ *
+ * | Bytes | Description         | Description                                         |
+ * | ----- | ------------------- | --------------------------------------------------- |
+ * | 1     | SOF                 | 0x68 (fixed)                                        |
+ * | 1     | Length              | Number of bytes from the control byte up to the CS  |
+ * | 1     | Length              | Repeated length                                     |
+ * | 1     | SOF                 | 0x68 (fixed)                                        |
+ * | 1     | Control             | Control field (C), e.g. 0x53 (SND_UD)               |
+ * | 1     | Address             | Address field (A), 0xFF for broadcasts              |
+ * | 1     | Control Information | See "Control Information"                           |
+ * | 1     | Source TSAP         | Transport service access point of the sender        |
+ * | 1     | Destination TSAP    | Transport service access point of the receiver      |
+ * | n     | Frame               | Frame contents                                      |
+ * | 1     | Checksum            | Sum of all bytes from the control byte up to the CS |
+ * | 1     | EOF                 | 0x16 (fixed)                                        |
+ *
+ * Control Information: 0b000F_SSSS
+ *
+ * | Bits | Description   | Description                                                   |
+ * | ---- | ------------- | ------------------------------------------------------------- |
+ * | F    | Final segment | When 1, this is the last frame of the DLMS telegram.          |
+ * | S    | Sequence      | Sequence number of the segment, starts at 0 for every message |
+ *
+ * We only support the DLMS/COSEM transport layer (control information 0x00-0x1F), which is used by
+ * meters in Austria (e.g. Wiener Netze, Kaifa MA309). A single DLMS telegram is split over multiple
+ * M-Bus frames, because a long frame can hold at most 252 bytes of data.
+ *
+ * These are included in the test suite of this library as well (see {@link tests/telegrams/m-bus})
+ */
+
+import { SmartMeterError, SmartMeterUnknownMessageTypeError } from '../util/errors.js';
+import { DlmsParserResult } from './dlms.js';
+
+export type MbusParserResult = DlmsParserResult & {
+  mbus: {
+    frames: {
+      control: number;
+      address: number;
+      controlInformation: number;
+      checksum: {
+        value: number;
+        valid: boolean;
+      };
+    }[];
+  };
+};
+
+export const MBUS_LONG_FRAME_SOF = 0x68;
+export const MBUS_LONG_FRAME_EOF = 0x16;
+export const MBUS_HEADER_LENGTH = 9;
+export const MBUS_FOOTER_LENGTH = 2;
+export const MBUS_CI_DLMS_MAX = 0x1f;
+export const MBUS_CI_FINAL_SEGMENT = 0x10;
+
+/** The M-Bus checksum is the arithmetic sum (without carry) of all bytes. */
+export const calculateMbusChecksum = (data: Buffer) => {
+  let checksum = 0;
+
+  for (const byte of data) {
+    checksum = (checksum + byte) & 0xff;
+  }
+
+  return checksum;
+};
+
+export const decodeMbusHeader = (data: Buffer) => {
+  if (data.length < MBUS_HEADER_LENGTH) {
+    throw new SmartMeterError('Invalid header length');
+  }
+
+  let index = 0;
+
+  const sof = data.readUint8(index++);
+
+  if (sof !== MBUS_LONG_FRAME_SOF) {
+    throw new SmartMeterError(`Invalid telegram sof 0x${sof.toString(16)}`);
+  }
+
+  const length = data.readUint8(index++);
+  const lengthRepeated = data.readUint8(index++);
+
+  if (length !== lengthRepeated) {
+    throw new SmartMeterError(`Invalid length 0x${length.toString(16)}`);
+  }
+
+  const sofRepeated = data.readUint8(index++);
+
+  if (sofRepeated !== MBUS_LONG_FRAME_SOF) {
+    throw new SmartMeterError(`Invalid telegram sof 0x${sofRepeated.toString(16)}`);
+  }
+
+  const control = data.readUint8(index++);
+  const address = data.readUint8(index++);
+  const controlInformation = data.readUint8(index++);
+
+  if (controlInformation > MBUS_CI_DLMS_MAX) {
+    throw new SmartMeterUnknownMessageTypeError(
+      `Invalid control information 0x${controlInformation.toString(16)}`,
+    );
+  }
+
+  const sourceTsap = data.readUint8(index++);
+  const destinationTsap = data.readUint8(index++);
+
+  return {
+    // Total length of the frame, including the start and the stop bytes.
+    frameLength: length + 6,
+    control,
+    address,
+    controlInformation,
+    sequenceNumber: controlInformation & 0x0f,
+    isFinalSegment: (controlInformation & MBUS_CI_FINAL_SEGMENT) !== 0,
+    sourceTsap,
+    destinationTsap,
+    consumedBytes: index,
+  };
+};
+
+export const decodeMbusFooter = (frame: Buffer) => {
+  if (frame[frame.length - 1] !== MBUS_LONG_FRAME_EOF) {
+    throw new SmartMeterError(`Invalid footer eof 0x${frame[frame.length - 1].toString(16)}`);
+  }
+
+  const checksum = frame.readUint8(frame.length - MBUS_FOOTER_LENGTH);
+  const calculatedChecksum = calculateMbusChecksum(frame.subarray(4, -MBUS_FOOTER_LENGTH));
+
+  return {
+    checksum,
+    checksumValid: checksum === calculatedChecksum,
+  };
+};
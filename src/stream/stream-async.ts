@@ -0,0 +1,202 @@
+import { Readable } from 'node:stream';
+import type { SmartMeterParserResult } from '../index.js';
+import { SmartMeterError, SmartMeterStreamEndedError, toSmartMeterError } from '../util/errors.js';
+import { SmartMeterStreamCallback, SmartMeterStreamParser } from './stream.js';
+import { AutoSmartMeterStreamParser } from './stream-auto.js';
+import {
+  createSmartMeterStreamParser,
+  SmartMeterParserMode,
+  SmartMeterStreamParserOptions,
+} from './stream-factory.js';
+
+export type SmartMeterTelegram = {
+  result: SmartMeterParserResult;
+  /** The raw data of the telegram */
+  raw: Buffer;
+};
+
+export type ParseSmartMeterStreamOptions = Omit<
+  SmartMeterStreamParserOptions,
+  'mode' | 'stream' | 'callback'
+> & {
+  /** The protocol of the stream, it is detected automatically when it is not set. */
+  mode?: SmartMeterParserMode;
+  /** Maximum number of parsed telegrams that are queued before the stream is paused, defaults to 16 */
+  highWaterMark?: number;
+  /**
+   * Skip telegrams that can't be parsed (e.g. due to a CRC or decryption error) instead of
+   * rejecting with the error. Defaults to false.
+   */
+  skipErrors?: boolean;
+};
+
+type QueueItem = { telegram: SmartMeterTelegram; error?: undefined } | { error: SmartMeterError };
+
+/**
+ * Async iterator over the telegrams of a stream. Parse errors are thrown from `next()`, after which
+ * the iteration can be continued. The iteration is done when the stream ends or closes.
+ */
+export class SmartMeterTelegramIterator implements AsyncIterableIterator<SmartMeterTelegram> {
+  private parser: SmartMeterStreamParser;
+  private queue: QueueItem[] = [];
+  private waiting: {
+    resolve: (result: IteratorResult<SmartMeterTelegram, undefined>) => void;
+    reject: (error: SmartMeterError) => void;
+  }[] = [];
+  private ended = false;
+  private paused = false;
+  private highWaterMark: number;
+
+  private readonly boundOnEnd = this.onEnd.bind(this);
+  private readonly boundOnError = this.onError.bind(this);
+
+  constructor(
+    private stream: Readable,
+    options: ParseSmartMeterStreamOptions = {},
+  ) {
+    this.highWaterMark = options.highWaterMark ?? 16;
+
+    this.stream.addListener('end', this.boundOnEnd);
+    this.stream.addListener('close', this.boundOnEnd);
+    this.stream.addListener('error', this.boundOnError);
+
+    const { highWaterMark: _highWaterMark, skipErrors, mode, ...parserOptions } = options;
+    const callback: SmartMeterStreamCallback = (error, result, raw) => {
+      if (error) {
+        if (!skipErrors) {
+          this.push({ error: toSmartMeterError(error) });
+        }
+        return;
+      }
+
+      if (result && raw) {
+        this.push({ telegram: { result, raw } });
+      }
+    };
+
+    this.parser = mode
+      ? createSmartMeterStreamParser({ ...parserOptions, mode, stream, callback })
+      : new AutoSmartMeterStreamParser({ ...parserOptions, stream, callback });
+  }
+
+  private push(item: QueueItem) {
+    const waiting = this.waiting.shift();
+
+    if (waiting) {
+      if (item.error) {
+        waiting.reject(item.error);
+      } else {
+        waiting.resolve({ value: item.telegram, done: false });
+      }
+      return;
+    }
+
+    this.queue.push(item);
+
+    // Apply backpressure when the consumer can't keep up.
+    if (this.queue.length >= this.highWaterMark && !this.paused) {
+      this.paused = true;
+      this.stream.pause();
+    }
+  }
+
+  private onEnd() {
+    this.cleanup();
+
+    for (const { resolve } of this.waiting.splice(0)) {
+      resolve({ value: undefined, done: true });
+    }
+  }
+
+  private onError(rawError: unknown) {
+    this.push({ error: toSmartMeterError(rawError) });
+    this.onEnd();
+  }
+
+  private cleanup() {
+    if (this.ended) return;
+    this.ended = true;
+
+    this.stream.removeListener('end', this.boundOnEnd);
+    this.stream.removeListener('close', this.boundOnEnd);
+    this.stream.removeListener('error', this.boundOnError);
+    this.parser.destroy();
+  }
+
+  next(): Promise<IteratorResult<SmartMeterTelegram, undefined>> {
+    const item = this.queue.shift();
+
+    if (this.paused && this.queue.length < this.highWaterMark) {
+      this.paused = false;
+      this.stream.resume();
+    }
+
+    if (item) {
+      return item.error
+        ? Promise.reject(item.error)
+        : Promise.resolve({ value: item.telegram, done: false });
+    }
+
+    if (this.ended) {
+      return Promise.resolve({ value: undefined, done: true });
+    }
+
+    return new Promise((resolve, reject) => {
+      this.waiting.push({ resolve, reject });
+    });
+  }
+
+  /** Stops parsing the stream, the stream itself is not closed. */
+  return(): Promise<IteratorResult<SmartMeterTelegram, undefined>> {
+    this.queue = [];
+    this.onEnd();
+
+    return Promise.resolve({ value: undefined, done: true });
+  }
+
+  /**
+   * Resolves with the next telegram of the stream.
+   *
+   * @throws {SmartMeterStreamEndedError} When the stream ends before a telegram was received.
+   */
+  async nextTelegram() {
+    const next = await this.next();
+
+    if (next.done) {
+      throw new SmartMeterStreamEndedError();
+    }
+
+    return next.value;
+  }
+
+  [Symbol.asyncIterator]() {
+    return this;
+  }
+}
+
+/**
+ * Parses the telegrams of a stream, use it with `for await (const { result, raw } of ...)`.
+ *
+ * @example
+ *   for await (const { result } of parseSmartMeterStream(serialPort, { mode: 'dsmr' })) {
+ *     console.log(result.electricity);
+ *   }
+ */
+export const parseSmartMeterStream = (stream: Readable, options?: ParseSmartMeterStreamOptions) => {
+  return new SmartMeterTelegramIterator(stream, options);
+};
+
+/**
+ * Resolves with the first telegram of the stream, after which the stream is no longer parsed.
+ *
+ * @throws {SmartMeterStreamEndedError} When the stream ends before a telegram was received.
+ */
+export const nextTelegram = async (stream: Readable, options?: ParseSmartMeterStreamOptions) => {
+  const telegrams = parseSmartMeterStream(stream, options);
+
+  try {
+    return await telegrams.nextTelegram();
+  } finally {
+    await telegrams.return();
+  }
+};
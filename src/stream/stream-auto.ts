@@ -0,0 +1,160 @@
+import { EventEmitter } from 'node:events';
+import { DSMR_SOF } from '../protocols/dsmr.js';
+import { SmartMeterBufferStats, SmartMeterStreamParser } from './stream.js';
+import { SmartMeterDetectTypeStream } from './stream-detect-type.js';
+import {
+  createSmartMeterStreamParser,
+  SmartMeterParserMode,
+  SmartMeterStreamParserOptions,
+} from './stream-factory.js';
+import { resolveTimezone } from '../util/timezone.js';
+
+export type AutoSmartMeterStreamParserOptions = Omit<
+  SmartMeterStreamParserOptions,
+  'mode' | 'encrypted' | 'initialData'
+> & {
+  /** Whether the DSMR telegrams are encrypted, overrides the detected encryption when it is set. */
+  encrypted?: boolean;
+};
+
+export type SmartMeterModeChange = {
+  mode: SmartMeterParserMode;
+  encrypted: boolean;
+  /** The mode before the change, undefined when the mode is detected for the first time */
+  previousMode?: SmartMeterParserMode;
+  previousEncrypted?: boolean;
+};
+
+/**
+ * Stream parser that detects the protocol of the stream and uses the matching parser. When the
+ * parser fails to parse the data (e.g. because the utility enabled encryption), the protocol is
+ * detected again and the parser is replaced when the protocol changed.
+ *
+ * Emits a `mode-change` event when the protocol is detected or changed.
+ */
+export class AutoSmartMeterStreamParser
+  extends EventEmitter<{ 'mode-change': [SmartMeterModeChange] }>
+  implements SmartMeterStreamParser
+{
+  private parser?: SmartMeterStreamParser;
+  private detector?: SmartMeterDetectTypeStream;
+  private currentMode?: { mode: SmartMeterParserMode; encrypted: boolean };
+  /** Discarded data of the detectors and parsers that were destroyed */
+  private discardedBytes = 0;
+  private overflows = 0;
+
+  constructor(private options: AutoSmartMeterStreamParserOptions) {
+    super();
+    // The DSMR parsers are created later, so the timezone is checked before any data is received.
+    resolveTimezone(options.timezone);
+    this.startDetection();
+  }
+
+  get startOfFrameByte() {
+    return this.parser?.startOfFrameByte ?? DSMR_SOF;
+  }
+
+  /** The detected protocol, undefined when it isn't detected yet. */
+  get mode() {
+    return this.currentMode;
+  }
+
+  private startDetection() {
+    if (this.detector) return;
+
+    this.detector = new SmartMeterDetectTypeStream({
+      stream: this.options.stream,
+      maxBufferSize: this.options.maxBufferSize,
+      onError: (error) => this.options.callback(error),
+      callback: ({ mode, encrypted, data }) => {
+        this.stopDetection();
+        this.onDetected(mode, encrypted, data);
+      },
+    });
+  }
+
+  private stopDetection() {
+    this.addBufferStats(this.detector);
+    this.detector?.destroy();
+    this.detector = undefined;
+  }
+
+  private addBufferStats(parser: SmartMeterStreamParser | undefined) {
+    const stats = parser?.bufferStats();
+
+    this.discardedBytes += stats?.discardedBytes ?? 0;
+    this.overflows += stats?.overflows ?? 0;
+  }
+
+  private onDetected(mode: SmartMeterParserMode, detectedEncrypted: boolean, data: Buffer) {
+    const previous = this.currentMode;
+    const encrypted = this.options.encrypted ?? detectedEncrypted;
+
+    // The current parser received the same data, so it can continue.
+    if (this.parser && previous?.mode === mode && previous.encrypted === encrypted) {
+      return;
+    }
+
+    this.addBufferStats(this.parser);
+    this.parser?.destroy();
+    this.currentMode = { mode, encrypted };
+
+    this.emit('mode-change', {
+      mode,
+      encrypted,
+      previousMode: previous?.mode,
+      previousEncrypted: previous?.encrypted,
+    });
+
+    this.parser = createSmartMeterStreamParser({
+      ...this.options,
+      mode,
+      encrypted,
+      initialData: data,
+      callback: (error, result, rawData) => {
+        if (error) {
+          // The meter might have switched protocols, start looking for another protocol.
+          this.startDetection();
+          this.options.callback(error);
+          return;
+        }
+
+        if (result && rawData) {
+          this.stopDetection();
+          this.options.callback(null, result, rawData);
+        }
+      },
+    });
+  }
+
+  destroy() {
+    this.stopDetection();
+    this.addBufferStats(this.parser);
+    this.parser?.destroy();
+    this.parser = undefined;
+  }
+
+  clear() {
+    this.detector?.clear();
+    this.parser?.clear();
+  }
+
+  currentSize() {
+    return (this.detector?.currentSize() ?? 0) + (this.parser?.currentSize() ?? 0);
+  }
+
+  /** Includes the data that was discarded by the protocol detection and by all parsers used. */
+  bufferStats(): SmartMeterBufferStats {
+    const detectorStats = this.detector?.bufferStats();
+    const parserStats = this.parser?.bufferStats();
+
+    return {
+      currentSize: this.currentSize(),
+      discardedBytes:
+        this.discardedBytes +
+        (detectorStats?.discardedBytes ?? 0) +
+        (parserStats?.discardedBytes ?? 0),
+      overflows: this.overflows + (detectorStats?.overflows ?? 0) + (parserStats?.overflows ?? 0),
+    };
+  }
+}
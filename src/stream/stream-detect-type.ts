@@ -4,7 +4,8 @@ import { Readable } from 'node:stream';
 import {
   decodeEncryptionHeader,
   ENCRYPTED_DLMS_HEADER_LEN,
-  ENCRYPTED_DLMS_TELEGRAM_SOF,
+  indexOfEncryptedDlmsSof,
+  isEncryptedDlmsSof,
 } from '../protocols/encryption.js';
 import {
   decodeHdlcHeader,
@@ -13,36 +14,60 @@ import {
   HDLC_LLC_HEADER_LENGTH,
   HDLC_TELEGRAM_SOF_EOF,
 } from '../protocols/hdlc.js';
+import {
+  decodeMbusFooter,
+  decodeMbusHeader,
+  MBUS_HEADER_LENGTH,
+  MBUS_LONG_FRAME_SOF,
+} from '../protocols/mbus.js';
 import { CR, DSMR_SOF, LF } from '../protocols/dsmr.js';
-import { SmartMeterStreamParser } from './stream.js';
+import { SmartMeterBufferOverflowError } from '../util/errors.js';
+import {
+  SmartMeterBufferOptions,
+  SmartMeterBufferOverflows,
+  SmartMeterBufferStats,
+  SmartMeterStreamParser,
+} from './stream.js';
 
 type StreamDetectTypeCallback = (result: {
-  mode: 'dsmr' | 'dlms';
+  mode: 'dsmr' | 'dlms' | 'mbus';
   encrypted: boolean;
   /** Note that the frame might not start at the beginning of the buffer. */
   data: Buffer;
 }) => void;
 
-/** This class detects the type of stream (DSMR or DLMS) and whether it is encrypted or not. */
+/** This class detects the type of stream (DSMR, DLMS or M-Bus) and whether it is encrypted or not. */
 export class SmartMeterDetectTypeStream implements SmartMeterStreamParser {
   public readonly startOfFrameByte = DSMR_SOF;
 
   private boundOnData: SmartMeterDetectTypeStream['onData'];
   private telegram = Buffer.alloc(0);
+  private bufferOverflows: SmartMeterBufferOverflows;
 
   constructor(
-    private options: {
+    private options: SmartMeterBufferOptions & {
       stream: Readable;
       callback: StreamDetectTypeCallback;
+      /** Called when the buffer overflowed and data was discarded */
+      onError?: (error: SmartMeterBufferOverflowError) => void;
     },
   ) {
+    this.bufferOverflows = new SmartMeterBufferOverflows(options.maxBufferSize);
     this.boundOnData = this.onData.bind(this);
     options.stream.addListener('data', this.boundOnData);
   }
 
   private onData(data: Buffer) {
     this.telegram = Buffer.concat([this.telegram, data]);
+    this.detectType();
+
+    // The data that remains after discarding might contain a frame that wasn't detected before.
+    if (this.checkBufferOverflow() && this.telegram.length > 0) {
+      this.detectType();
+    }
+  }
 
+  private detectType() {
     const { hasFoundDsmr, canClearDsmr } = this.onDataCheckDSMR();
 
     if (hasFoundDsmr) {
@@ -69,6 +94,24 @@ export class SmartMeterDetectTypeStream implements SmartMeterStreamParser {
       return;
     }
 
+    // Note: M-Bus frames also contain the encryption header, so this check must be done before
+    // checking for encrypted DSMR as well.
+    const { hasFoundMbus, encryptedMbus, canClearMbus } = this.onDataCheckMbus();
+
+    if (hasFoundMbus) {
+      this.options.callback({
+        mode: 'mbus',
+        encrypted: encryptedMbus ?? false,
+        data: this.telegram,
+      });
+      this.clear();
+      return;
+    }
+
+    // Wait until the M-Bus frame is complete, otherwise the encryption header inside
+    // of it would be detected as an encrypted DSMR telegram.
+    if (!canClearMbus) return;
+
     const { hasFoundEncryptedDsmr, canClearEncryptedDsmr } = this.onDataCheckEncryptedDSMR();
 
     if (hasFoundEncryptedDsmr) {
@@ -81,7 +124,7 @@ export class SmartMeterDetectTypeStream implements SmartMeterStreamParser {
       return;
     }
 
-    // If all three checks are not finding valid telegrams, and they are not
+    // If all checks are not finding valid telegrams, and they are not
     // waiting for more data, we can clear the telegram buffer.
     if (canClearDsmr && canClearDlms && canClearEncryptedDsmr) {
       this.clear();
@@ -164,15 +207,61 @@ export class SmartMeterDetectTypeStream implements SmartMeterStreamParser {
       return {
         hasFoundDlms: true,
         canClearDlms: true,
-        encryptedDlms: contentStart === ENCRYPTED_DLMS_TELEGRAM_SOF,
+        encryptedDlms: isEncryptedDlmsSof(contentStart),
       };
     } catch (_error) {
       return { hasFoundDlms: false };
     }
   }
 
+  private onDataCheckMbus() {
+    const sofIndex = this.telegram.indexOf(MBUS_LONG_FRAME_SOF);
+
+    if (sofIndex === -1) {
+      return {
+        hasFoundMbus: false,
+        canClearMbus: true,
+      };
+    }
+
+    if (this.telegram.length < sofIndex + MBUS_HEADER_LENGTH) {
+      return {
+        hasFoundMbus: false,
+        canClearMbus: false,
+      };
+    }
+
+    try {
+      const header = decodeMbusHeader(this.telegram.subarray(sofIndex));
+
+      // The header of an M-Bus frame is quite short, so wait for the full frame
+      // and validate the checksum before reporting it.
+      if (this.telegram.length < sofIndex + header.frameLength) {
+        return {
+          hasFoundMbus: false,
+          canClearMbus: false,
+        };
+      }
+
+      const footer = decodeMbusFooter(
+        this.telegram.subarray(sofIndex, sofIndex + header.frameLength),
+      );
+
+      return {
+        hasFoundMbus: footer.checksumValid,
+        canClearMbus: true,
+        encryptedMbus: isEncryptedDlmsSof(this.telegram.readUint8(sofIndex + header.consumedBytes)),
+      };
+    } catch (_error) {
+      return {
+        hasFoundMbus: false,
+        canClearMbus: true,
+      };
+    }
+  }
+
   private onDataCheckEncryptedDSMR() {
-    const sofIndex = this.telegram.indexOf(ENCRYPTED_DLMS_TELEGRAM_SOF);
+    const sofIndex = indexOfEncryptedDlmsSof(this.telegram);
 
     if (sofIndex === -1) {
       return {
@@ -206,6 +295,37 @@ export class SmartMeterDetectTypeStream implements SmartMeterStreamParser {
     }
   }
 
+  /**
+   * Discards the buffered data when it exceeds the maximum buffer size. The data is discarded up to
+   * the next byte that could be a start of frame, such that the remaining data fits in the buffer.
+   *
+   * @returns Whether data was discarded.
+   */
+  private checkBufferOverflow() {
+    if (!this.bufferOverflows.exceeds(this.telegram.length)) return false;
+
+    const searchFrom = Math.max(1, this.telegram.length - this.bufferOverflows.maxBufferSize);
+    const remaining = this.telegram.subarray(searchFrom);
+
+    // A DSMR start of frame is only plausible at the start of a line.
+    const dsmrLineIndex = remaining.indexOf(Buffer.from([LF, DSMR_SOF]));
+    const sofIndices = [
+      dsmrLineIndex === -1 ? -1 : dsmrLineIndex + 1,
+      remaining.indexOf(HDLC_TELEGRAM_SOF_EOF),
+      remaining.indexOf(MBUS_LONG_FRAME_SOF),
+      indexOfEncryptedDlmsSof(remaining),
+    ].filter((index) => index !== -1);
+
+    const sofIndex =
+      sofIndices.length === 0 ? this.telegram.length : searchFrom + Math.min(...sofIndices);
+    const discarded = this.telegram.subarray(0, sofIndex);
+
+    this.telegram = this.telegram.subarray(sofIndex);
+    this.options.onError?.(this.bufferOverflows.discard(discarded));
+
+    return true;
+  }
+
   destroy() {
     this.clear();
     this.options.stream.removeListener('data', this.boundOnData);
@@ -218,4 +338,8 @@ export class SmartMeterDetectTypeStream implements SmartMeterStreamParser {
   currentSize() {
     return this.telegram.length;
   }
+
+  bufferStats(): SmartMeterBufferStats {
+    return this.bufferOverflows.stats(this.currentSize());
+  }
 }
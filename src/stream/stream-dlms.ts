@@ -9,20 +9,38 @@ import {
   HdlcParserResult,
 } from './../protocols/hdlc.js';
 import {
+  SmartMeterCrcError,
   SmartMeterError,
   SmartMeterTimeoutError,
   StartOfFrameNotFoundError,
   toSmartMeterError,
 } from '../util/errors.js';
 import { decodeDLMSContent, decodeDlmsObis } from './../protocols/dlms.js';
-import { SmartMeterStreamCallback, SmartMeterStreamParser } from './stream.js';
-
-export type DlmsStreamParserOptions = {
+import { setEncryptionInfo } from '../protocols/encryption.js';
+import {
+  findPlausibleStartOfFrame,
+  SmartMeterBufferOptions,
+  SmartMeterBufferOverflows,
+  SmartMeterBufferStats,
+  SmartMeterStreamCallback,
+  SmartMeterStreamParser,
+} from './stream.js';
+import type { CosemLibraryInstance } from '../protocols/cosem.js';
+import type { DlmsPayloadsInstance } from '../protocols/dlms-payload/dlms-payloads.js';
+import type { CrcPolicy, ParserDiagnostic } from '../util/base-result.js';
+import type { SmartMeterReplayGuard } from '../util/replay-guard.js';
+import type { SmartMeterKeyRing } from '../util/key-ring.js';
+
+export type DlmsStreamParserOptions = SmartMeterBufferOptions & {
   stream: Readable;
   callback: SmartMeterStreamCallback<HdlcParserResult>;
   /** Decryption key */
   decryptionKey?: Buffer;
-  /** AAD */
+  /** Keys that are tried when the key of the meter isn't known, see {@link SmartMeterKeyRing} */
+  keyRing?: SmartMeterKeyRing;
+  /** Authentication key, used to verify the GCM tag */
+  authenticationKey?: Buffer;
+  /** AAD, an AAD of 16 bytes is used as the authentication key */
   additionalAuthenticatedData?: Buffer;
   /**
    * Maximum time in milliseconds to wait for a full frame to be received. The timer starts when a
@@ -31,12 +49,35 @@ export type DlmsStreamParserOptions = {
   fullFrameRequiredWithinMs?: number;
   /** Data that is already available in the stream when the parser is created. */
   initialData?: Buffer;
+  /** COSEM library used to map the OBIS codes, defaults to `CosemLibrary` */
+  cosemLibrary?: CosemLibraryInstance;
+  /** Payload layouts used to map the DLMS data to OBIS codes, defaults to `DlmsPayloads` */
+  dlmsPayloads?: DlmsPayloadsInstance;
+  /** How a telegram with an invalid header or footer CRC is handled, defaults to `lenient` */
+  crcPolicy?: CrcPolicy;
+  /**
+   * Rejects encrypted telegrams of which the frame counter didn't increase. Only the frame counters
+   * of authenticated telegrams are remembered.
+   */
+  replayGuard?: SmartMeterReplayGuard;
+};
+
+const isPlausibleHdlcFrame = (data: Buffer) => {
+  if (data.length < HDLC_HEADER_LENGTH) return true;
+
+  try {
+    decodeHdlcHeader(data);
+    return true;
+  } catch {
+    return false;
+  }
 };
 
 export class DlmsStreamParser implements SmartMeterStreamParser {
   public readonly startOfFrameByte = HDLC_TELEGRAM_SOF_EOF;
 
   private hasStartOfFrame = false;
+  private bufferOverflows: SmartMeterBufferOverflows;
   private fullFrameRequiredWithinMs: number;
   private fullFrameRequiredTimeout?: NodeJS.Timeout;
   private telegram = Buffer.alloc(0);
@@ -53,6 +94,7 @@ export class DlmsStreamParser implements SmartMeterStreamParser {
     this.options.stream.addListener('data', this.boundOnData);
 
     this.fullFrameRequiredWithinMs = options.fullFrameRequiredWithinMs ?? 5000;
+    this.bufferOverflows = new SmartMeterBufferOverflows(options.maxBufferSize);
 
     if (this.options.initialData) {
       this.onData(this.options.initialData);
@@ -97,8 +139,7 @@ export class DlmsStreamParser implements SmartMeterStreamParser {
         }
 
         this.options.callback(error);
-
-        this.clear();
+        this.skipStartOfFrame();
         return;
       }
     }
@@ -110,6 +151,7 @@ export class DlmsStreamParser implements SmartMeterStreamParser {
     const totalLength = this.header.frameLength + 2;
 
     if (this.telegram.length < totalLength) {
+      this.checkBufferOverflow();
       return; // Wait for more data
     }
 
@@ -134,6 +176,7 @@ export class DlmsStreamParser implements SmartMeterStreamParser {
       this.hasStartOfFrame = false;
       this.header = undefined;
       this.telegram = Buffer.alloc(0);
+      this.checkBufferOverflow();
 
       // There might be more data in the buffer for the next telegram.
       if (remainingData.length > 0) {
@@ -148,67 +191,74 @@ export class DlmsStreamParser implements SmartMeterStreamParser {
     this.fullFrameRequiredTimeout = undefined;
 
     try {
+      const diagnostics: ParserDiagnostic[] = [];
+
+      for (const [frame, header] of this.headers.entries()) {
+        if (!header.crcValid) {
+          diagnostics.push({ type: 'crc', message: `Invalid header CRC in frame ${frame}`, frame });
+        }
+
+        if (!this.footers[frame].crcValid) {
+          diagnostics.push({ type: 'crc', message: `Invalid footer CRC in frame ${frame}`, frame });
+        }
+      }
+
+      if (diagnostics.length > 0 && this.options.crcPolicy === 'strict') {
+        throw new SmartMeterCrcError(diagnostics);
+      }
+
       const llc = decodeLlcHeader(this.cachedContent);
 
       const dlmsContent = decodeDLMSContent({
         frame: this.cachedContent.subarray(llc.consumedBytes),
         decryptionKey: this.options.decryptionKey,
+        keyRing: this.options.keyRing,
+        authenticationKey: this.options.authenticationKey,
         additionalAuthenticatedData: this.options.additionalAuthenticatedData,
+        replayGuard: this.options.replayGuard,
       });
 
-      let allCrcValid = true;
-
       const result: HdlcParserResult = {
         hdlc: {
-          headers: this.headers.map((header) => {
-            if (!header.crcValid) {
-              allCrcValid = false;
-            }
-
-            return {
-              destinationAddress: header.destinationAddress,
-              sourceAddress: header.sourceAddress,
-              crc: {
-                valid: header.crcValid,
-                value: header.crc,
-              },
-            };
-          }),
-          footers: this.footers.map((footer) => {
-            if (!footer.crcValid) {
-              allCrcValid = false;
-            }
-
-            return {
-              crc: {
-                valid: footer.crcValid,
-                value: footer.crc,
-              },
-            };
-          }),
+          headers: this.headers.map((header) => ({
+            destinationAddress: header.destinationAddress,
+            sourceAddress: header.sourceAddress,
+            crc: {
+              valid: header.crcValid,
+              value: header.crc,
+            },
+          })),
+          footers: this.footers.map((footer) => ({
+            crc: {
+              valid: footer.crcValid,
+              value: footer.crc,
+            },
+          })),
         },
         // DLMS properties will be filled in by `decodeDlmsObis`
         dlms: {
           invokeId: 0,
-          timestamp: '',
           unknownObjects: [],
           payloadType: '',
         },
         cosem: {
           unknownObjects: [],
           knownObjects: [],
+          objects: {},
         },
         electricity: {},
         mBus: {},
         metadata: {},
-        crcValid: allCrcValid,
+        crcValid: diagnostics.length === 0,
+        diagnostics,
       };
 
-      if (this.options.decryptionKey) {
-        result.additionalAuthenticatedDataValid = dlmsContent.decryptionError === undefined;
-      }
+      setEncryptionInfo(result, dlmsContent.encryption);
 
-      decodeDlmsObis(dlmsContent, result);
+      decodeDlmsObis(dlmsContent, result, {
+        cosemLibrary: this.options.cosemLibrary,
+        dlmsPayloads: this.options.dlmsPayloads,
+      });
 
       this.options.callback(null, result, Buffer.concat(this.telegrams));
     } catch (rawError) {
@@ -229,6 +279,35 @@ export class DlmsStreamParser implements SmartMeterStreamParser {
     }
   }
 
+  /**
+   * Discards the data up to the next plausible start of frame, the current start of frame turned
+   * out to be noise or the start of a corrupted frame.
+   */
+  private skipStartOfFrame() {
+    const remainingData = findPlausibleStartOfFrame(
+      this.telegram.subarray(1),
+      (data) => data.indexOf(HDLC_TELEGRAM_SOF_EOF),
+      isPlausibleHdlcFrame,
+    );
+    this.clear();
+
+    if (remainingData.length > 0) {
+      this.onData(remainingData);
+    }
+  }
+
+  /**
+   * Discards the buffered frames when they exceed the maximum buffer size, e.g. when the final
+   * segment of a telegram is never received. Parsing continues at the next start of frame.
+   */
+  private checkBufferOverflow() {
+    if (!this.bufferOverflows.exceeds(this.currentSize())) return;
+
+    const error = this.bufferOverflows.discard(Buffer.concat([...this.telegrams, this.telegram]));
+    this.clear();
+    this.options.callback(error);
+  }
+
   private onFullFrameRequiredTimeout() {
     const error = new SmartMeterTimeoutError();
     error.withRawTelegram(this.telegram);
@@ -258,4 +337,8 @@ export class DlmsStreamParser implements SmartMeterStreamParser {
   currentSize(): number {
     return this.telegram.length + this.telegrams.reduce((acc, t) => acc + t.length, 0);
   }
+
+  bufferStats(): SmartMeterBufferStats {
+    return this.bufferOverflows.stats(this.currentSize());
+  }
 }
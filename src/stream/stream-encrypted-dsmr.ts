@@ -3,37 +3,75 @@ import {
   decodeEncryptionFooter,
   decodeEncryptionHeader,
   decryptFrameContents,
-  ENCRYPTED_DLMS_GCM_TAG_LEN,
+  decryptFrameContentsWithKeyRing,
   ENCRYPTED_DLMS_HEADER_LEN,
+  getEncryptionInfo,
+  indexOfEncryptedDlmsSof,
   ENCRYPTED_DLMS_TELEGRAM_SOF,
+  setEncryptionInfo,
 } from '../protocols/encryption.js';
 import { DsmrParserOptions, DsmrParserResult, parseDsmr } from './../protocols/dsmr.js';
 import {
+  SmartMeterDecodeError,
   SmartMeterError,
   StartOfFrameNotFoundError,
   SmartMeterTimeoutError,
   toSmartMeterError,
 } from '../util/errors.js';
-import { SmartMeterStreamCallback, SmartMeterStreamParser } from './stream.js';
-
-export type DSMRStreamParserOptions = Omit<DsmrParserOptions, 'telegram'> & {
-  /** The stream which is going to provide the data */
-  stream: Readable;
-  /** The callback that will be called when a telegram was parsed. */
-  callback: SmartMeterStreamCallback<DsmrParserResult>;
-  /**
-   * Maximum time in milliseconds to wait for a full frame to be received. The timer starts when a
-   * valid start of frame/header is received.
-   */
-  fullFrameRequiredWithinMs?: number;
-  /** Data that is already available in the stream when the parser is created. */
-  initialData?: Buffer;
-};
+import {
+  findPlausibleStartOfFrame,
+  SmartMeterBufferOptions,
+  SmartMeterBufferOverflows,
+  SmartMeterBufferStats,
+  SmartMeterStreamCallback,
+  SmartMeterStreamParser,
+} from './stream.js';
+import type { SmartMeterReplayGuard } from '../util/replay-guard.js';
+import { resolveTimezone } from '../util/timezone.js';
+import type { SmartMeterKeyRing } from '../util/key-ring.js';
+
+export type DSMRStreamParserOptions = Omit<DsmrParserOptions, 'telegram'> &
+  SmartMeterBufferOptions & {
+    /** The stream which is going to provide the data */
+    stream: Readable;
+    /** The callback that will be called when a telegram was parsed. */
+    callback: SmartMeterStreamCallback<DsmrParserResult>;
+    /**
+     * Maximum time in milliseconds to wait for a full frame to be received. The timer starts when a
+     * valid start of frame/header is received.
+     */
+    fullFrameRequiredWithinMs?: number;
+    /** Data that is already available in the stream when the parser is created. */
+    initialData?: Buffer;
+    /** Keys that are tried when the key of the meter isn't known, see {@link SmartMeterKeyRing} */
+    keyRing?: SmartMeterKeyRing;
+    /**
+     * Maximum size in bytes of an encrypted frame, defaults to 64 KiB. Frames with a larger length
+     * in their header (e.g. due to a corrupted length field) are rejected and discarded up to the
+     * next start of frame. Encrypted telegrams are limited by this size instead of
+     * `maxBufferSize`.
+     */
+    maxFrameSize?: number;
+    /**
+     * Rejects encrypted telegrams of which the frame counter didn't increase. Only the frame
+     * counters of authenticated telegrams are remembered.
+     */
+    replayGuard?: SmartMeterReplayGuard;
+  };
+
+const DEFAULT_MAX_FRAME_SIZE = 64 * 1024;
 
 export class EncryptedDSMRStreamParser implements SmartMeterStreamParser {
   private hasStartOfFrame = false;
   private header: ReturnType<typeof decodeEncryptionHeader> | undefined = undefined;
+  /** Data that is received before the header could be decoded */
   private telegram = Buffer.alloc(0);
+  /** Buffer for the full frame, allocated once the header is decoded */
+  private frame = Buffer.alloc(0);
+  /** Number of bytes of the frame that have been received */
+  private frameLength = 0;
+  private maxFrameSize: number;
+  private bufferOverflows: SmartMeterBufferOverflows;
   private fullFrameRequiredWithinMs: number;
   private fullFrameRequiredTimeout?: NodeJS.Timeout;
   private boundOnData: EncryptedDSMRStreamParser['onData'];
@@ -42,11 +80,16 @@ export class EncryptedDSMRStreamParser implements SmartMeterStreamParser {
   public readonly startOfFrameByte = ENCRYPTED_DLMS_TELEGRAM_SOF;
 
   constructor(private options: DSMRStreamParserOptions) {
+    // Throws on an invalid timezone, instead of failing on every telegram.
+    resolveTimezone(options.timezone);
+
     this.boundOnData = this.onData.bind(this);
     this.boundOnFullFrameRequiredTimeout = this.onFullFrameRequiredTimeout.bind(this);
 
     this.options.stream.addListener('data', this.boundOnData);
     this.fullFrameRequiredWithinMs = options.fullFrameRequiredWithinMs ?? 5000;
+    this.maxFrameSize = options.maxFrameSize ?? DEFAULT_MAX_FRAME_SIZE;
+    this.bufferOverflows = new SmartMeterBufferOverflows(this.maxFrameSize);
 
     if (this.options.initialData) {
       this.onData(this.options.initialData);
@@ -55,7 +98,7 @@ export class EncryptedDSMRStreamParser implements SmartMeterStreamParser {
 
   private onData(data: Buffer) {
     if (!this.hasStartOfFrame) {
-      const sofIndex = data.indexOf(ENCRYPTED_DLMS_TELEGRAM_SOF);
+      const sofIndex = indexOfEncryptedDlmsSof(data);
 
       // Not yet a valid frame. Discard the data
       if (sofIndex === -1) {
@@ -70,61 +113,108 @@ export class EncryptedDSMRStreamParser implements SmartMeterStreamParser {
         this.boundOnFullFrameRequiredTimeout,
         this.fullFrameRequiredWithinMs,
       );
-      this.telegram = data.subarray(sofIndex, data.length);
+      data = data.subarray(sofIndex, data.length);
       this.hasStartOfFrame = true;
-    } else {
-      this.telegram = Buffer.concat([this.telegram, data]);
     }
 
-    if (this.header === undefined && this.telegram.length >= ENCRYPTED_DLMS_HEADER_LEN) {
+    if (this.header === undefined) {
+      this.telegram = this.telegram.length === 0 ? data : Buffer.concat([this.telegram, data]);
+
+      // Wait for more data to decode the header
+      if (this.telegram.length < ENCRYPTED_DLMS_HEADER_LEN) return;
+
+      let frameTooLarge = false;
+
       try {
-        this.header = decodeEncryptionHeader(this.telegram);
+        const header = decodeEncryptionHeader(this.telegram);
+        const totalLength = header.consumedBytes + header.contentLength + header.gcmTagLength;
+
+        if (totalLength > this.maxFrameSize) {
+          frameTooLarge = true;
+          throw new SmartMeterDecodeError(
+            `Frame length ${totalLength} exceeds the maximum frame size ${this.maxFrameSize}`,
+          );
+        }
+
+        this.header = header;
+        this.frame = Buffer.allocUnsafe(totalLength);
       } catch (err) {
         const error = toSmartMeterError(err);
         error.withRawTelegram(this.telegram);
-        this.clear();
+
+        if (frameTooLarge) {
+          const sofIndex = indexOfEncryptedDlmsSof(this.telegram.subarray(1));
+          this.bufferOverflows.count(sofIndex === -1 ? this.telegram.length : sofIndex + 1);
+        }
 
         this.options.callback(error);
+        this.skipStartOfFrame();
         return;
       }
-    }
 
-    // Wait for more data to decode the header
-    if (!this.header) return;
+      // The received data is copied into the frame buffer below.
+      data = this.telegram;
+      this.telegram = Buffer.alloc(0);
+    }
 
-    const totalLength =
-      ENCRYPTED_DLMS_HEADER_LEN + this.header.contentLength + ENCRYPTED_DLMS_GCM_TAG_LEN;
+    const copiedBytes = data.copy(this.frame, this.frameLength);
+    this.frameLength += copiedBytes;
 
     // Wait until full telegram is received
-    if (this.telegram.length < totalLength) return;
+    if (this.frameLength < this.frame.length) return;
 
     clearTimeout(this.fullFrameRequiredTimeout);
 
     let decryptError: Error | undefined;
 
     try {
-      const telegram = this.telegram.subarray(0, totalLength);
+      const encryption = getEncryptionInfo(this.header);
+      this.options.replayGuard?.check(encryption);
+
+      const telegram = this.frame;
       const encryptedContent = telegram.subarray(
-        ENCRYPTED_DLMS_HEADER_LEN,
-        ENCRYPTED_DLMS_HEADER_LEN + this.header.contentLength,
+        this.header.consumedBytes,
+        this.header.consumedBytes + this.header.contentLength,
       );
-      const footer = decodeEncryptionFooter(this.telegram, this.header);
+      const footer = decodeEncryptionFooter(telegram, this.header);
 
-      const { content, error } = decryptFrameContents({
+      const decryptOptions = {
         data: encryptedContent,
         header: this.header,
         footer,
-        key: this.options.decryptionKey ?? Buffer.alloc(0),
+        authenticationKey: this.options.authenticationKey,
         additionalAuthenticatedData: this.options.additionalAuthenticatedData,
-      });
+      };
+      const { content, error, authenticated, keyId } = this.options.keyRing
+        ? decryptFrameContentsWithKeyRing({
+            ...decryptOptions,
+            key: this.options.decryptionKey,
+            keyRing: this.options.keyRing,
+          })
+        : decryptFrameContents({
+            ...decryptOptions,
+            key: this.options.decryptionKey ?? Buffer.alloc(0),
+          });
 
       decryptError = error;
 
+      // Frames without a verified GCM tag could be forged, their frame counter isn't remembered.
+      if (authenticated === true) {
+        this.options.replayGuard?.accept(encryption);
+      }
+
       const result = parseDsmr({
         telegram: content,
+        timezone: this.options.timezone,
+        cosemLibrary: this.options.cosemLibrary,
+        crcPolicy: this.options.crcPolicy,
       });
 
-      result.additionalAuthenticatedDataValid = decryptError === undefined;
+      setEncryptionInfo(result, {
+        ...encryption,
+        ...(authenticated !== undefined && { authenticated }),
+        ...(keyId !== undefined && { keyId }),
+      });
 
       this.options.callback(null, result, telegram);
     } catch (error) {
@@ -133,17 +223,15 @@ export class EncryptedDSMRStreamParser implements SmartMeterStreamParser {
       const realError = decryptError ?? toSmartMeterError(error);
 
       if (realError instanceof SmartMeterError) {
-        realError.withRawTelegram(this.telegram);
+        realError.withRawTelegram(this.frame);
       }
 
       this.options.callback(realError);
     }
 
-    const remainingData = this.telegram.subarray(totalLength, this.telegram.length);
+    const remainingData = data.subarray(copiedBytes, data.length);
 
-    this.hasStartOfFrame = false;
-    this.header = undefined;
-    this.telegram = Buffer.alloc(0);
+    this.clear();
 
     // There might be more data in the buffer for the next telegram.
     if (remainingData.length > 0) {
@@ -151,9 +239,39 @@ export class EncryptedDSMRStreamParser implements SmartMeterStreamParser {
     }
   }
 
+  /**
+   * Discards the data up to the next plausible start of frame, the current start of frame turned
+   * out to be noise or the start of a frame that can't be parsed.
+   */
+  private skipStartOfFrame() {
+    const remainingData = findPlausibleStartOfFrame(
+      this.telegram.subarray(1),
+      indexOfEncryptedDlmsSof,
+      (data) => this.isPlausibleFrame(data),
+    );
+    this.clear();
+
+    if (remainingData.length > 0) {
+      this.onData(remainingData);
+    }
+  }
+
+  private isPlausibleFrame(data: Buffer) {
+    if (data.length < ENCRYPTED_DLMS_HEADER_LEN) return true;
+
+    try {
+      const header = decodeEncryptionHeader(data);
+      const totalLength = header.consumedBytes + header.contentLength + header.gcmTagLength;
+
+      return totalLength <= this.maxFrameSize;
+    } catch {
+      return false;
+    }
+  }
+
   private onFullFrameRequiredTimeout() {
     const error = new SmartMeterTimeoutError();
-    error.withRawTelegram(this.telegram);
+    error.withRawTelegram(this.header ? this.frame.subarray(0, this.frameLength) : this.telegram);
     this.options.callback(error);
 
     // Reset the entire state here, as the full frame was not received.
@@ -169,9 +287,15 @@ export class EncryptedDSMRStreamParser implements SmartMeterStreamParser {
     this.hasStartOfFrame = false;
     this.header = undefined;
     this.telegram = Buffer.alloc(0);
+    this.frame = Buffer.alloc(0);
+    this.frameLength = 0;
   }
 
   currentSize() {
-    return this.telegram.length;
+    return this.header ? this.frameLength : this.telegram.length;
+  }
+
+  bufferStats(): SmartMeterBufferStats {
+    return this.bufferOverflows.stats(this.currentSize());
   }
 }
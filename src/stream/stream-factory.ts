@@ -0,0 +1,39 @@
+import { SmartMeterStreamCallback, SmartMeterStreamParser } from './stream.js';
+import { DlmsStreamParser, DlmsStreamParserOptions } from './stream-dlms.js';
+import { DSMRStreamParserOptions, EncryptedDSMRStreamParser } from './stream-encrypted-dsmr.js';
+import { MbusStreamParser, MbusStreamParserOptions } from './stream-mbus.js';
+import { UnencryptedDSMRStreamParser } from './stream-unencrypted-dsmr.js';
+
+export type SmartMeterParserMode = 'dsmr' | 'dlms' | 'mbus';
+
+export type SmartMeterStreamParserOptions = Omit<DSMRStreamParserOptions, 'callback'> &
+  Omit<DlmsStreamParserOptions, 'callback'> &
+  Omit<MbusStreamParserOptions, 'callback'> & {
+    mode: SmartMeterParserMode;
+    /**
+     * Whether the DSMR telegrams are encrypted, defaults to true when a decryption key or key ring
+     * is given.
+     */
+    encrypted?: boolean;
+    callback: SmartMeterStreamCallback;
+  };
+
+/** Creates the stream parser for the given mode. */
+export const createSmartMeterStreamParser = ({
+  mode,
+  encrypted,
+  ...options
+}: SmartMeterStreamParserOptions): SmartMeterStreamParser => {
+  switch (mode) {
+    case 'dlms':
+      return new DlmsStreamParser(options);
+    case 'mbus':
+      return new MbusStreamParser(options);
+    case 'dsmr':
+      if (encrypted ?? (options.decryptionKey !== undefined || options.keyRing !== undefined)) {
+        return new EncryptedDSMRStreamParser(options);
+      }
+
+      return new UnencryptedDSMRStreamParser(options);
+  }
+};
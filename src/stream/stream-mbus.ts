@@ -0,0 +1,367 @@
+import { Readable } from 'node:stream';
+import {
+  decodeMbusFooter,
+  decodeMbusHeader,
+  MBUS_FOOTER_LENGTH,
+  MBUS_HEADER_LENGTH,
+  MBUS_LONG_FRAME_SOF,
+  MbusParserResult,
+} from '../protocols/mbus.js';
+import {
+  SmartMeterCrcError,
+  SmartMeterDecodeError,
+  SmartMeterError,
+  SmartMeterTimeoutError,
+  StartOfFrameNotFoundError,
+  toSmartMeterError,
+} from '../util/errors.js';
+import { decodeDLMSContent, decodeDlmsObis } from '../protocols/dlms.js';
+import { setEncryptionInfo } from '../protocols/encryption.js';
+import {
+  findPlausibleStartOfFrame,
+  SmartMeterBufferOptions,
+  SmartMeterBufferOverflows,
+  SmartMeterBufferStats,
+  SmartMeterStreamCallback,
+  SmartMeterStreamParser,
+} from './stream.js';
+import type { CosemLibraryInstance } from '../protocols/cosem.js';
+import type { DlmsPayloadsInstance } from '../protocols/dlms-payload/dlms-payloads.js';
+import type { CrcPolicy, ParserDiagnostic } from '../util/base-result.js';
+import type { SmartMeterReplayGuard } from '../util/replay-guard.js';
+import type { SmartMeterKeyRing } from '../util/key-ring.js';
+
+export type MbusStreamParserOptions = SmartMeterBufferOptions & {
+  stream: Readable;
+  callback: SmartMeterStreamCallback<MbusParserResult>;
+  /** Decryption key */
+  decryptionKey?: Buffer;
+  /** Keys that are tried when the key of the meter isn't known, see {@link SmartMeterKeyRing} */
+  keyRing?: SmartMeterKeyRing;
+  /** Authentication key, used to verify the GCM tag */
+  authenticationKey?: Buffer;
+  /** AAD, an AAD of 16 bytes is used as the authentication key */
+  additionalAuthenticatedData?: Buffer;
+  /**
+   * Maximum time in milliseconds to wait for a full frame to be received. The timer starts when a
+   * valid start of frame/header is received.
+   */
+  fullFrameRequiredWithinMs?: number;
+  /** Data that is already available in the stream when the parser is created. */
+  initialData?: Buffer;
+  /** COSEM library used to map the OBIS codes, defaults to `CosemLibrary` */
+  cosemLibrary?: CosemLibraryInstance;
+  /** Payload layouts used to map the DLMS data to OBIS codes, defaults to `DlmsPayloads` */
+  dlmsPayloads?: DlmsPayloadsInstance;
+  /** How a telegram with an invalid frame checksum is handled, defaults to `lenient` */
+  crcPolicy?: CrcPolicy;
+  /**
+   * Rejects encrypted telegrams of which the frame counter didn't increase. Only the frame counters
+   * of authenticated telegrams are remembered.
+   */
+  replayGuard?: SmartMeterReplayGuard;
+};
+
+const isPlausibleMbusFrame = (data: Buffer) => {
+  if (data.length < MBUS_HEADER_LENGTH) return true;
+
+  try {
+    const { frameLength } = decodeMbusHeader(data);
+
+    // The stop byte can only be checked once the full frame is received.
+    if (data.length >= frameLength) {
+      decodeMbusFooter(data.subarray(0, frameLength));
+    }
+
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export class MbusStreamParser implements SmartMeterStreamParser {
+  public readonly startOfFrameByte = MBUS_LONG_FRAME_SOF;
+
+  private hasStartOfFrame = false;
+  private bufferOverflows: SmartMeterBufferOverflows;
+  private fullFrameRequiredWithinMs: number;
+  private fullFrameRequiredTimeout?: NodeJS.Timeout;
+  private telegram = Buffer.alloc(0);
+  private cachedContent = Buffer.alloc(0);
+  private header: ReturnType<typeof decodeMbusHeader> | undefined = undefined;
+  private headers: ReturnType<typeof decodeMbusHeader>[] = [];
+  private footers: ReturnType<typeof decodeMbusFooter>[] = [];
+  private telegrams: Buffer[] = [];
+
+  private readonly boundOnData = this.onData.bind(this);
+  private readonly boundOnFullFrameRequiredTimeout = this.onFullFrameRequiredTimeout.bind(this);
+
+  constructor(private options: MbusStreamParserOptions) {
+    this.options.stream.addListener('data', this.boundOnData);
+
+    this.fullFrameRequiredWithinMs = options.fullFrameRequiredWithinMs ?? 5000;
+    this.bufferOverflows = new SmartMeterBufferOverflows(options.maxBufferSize);
+
+    if (this.options.initialData) {
+      this.onData(this.options.initialData);
+    }
+  }
+
+  private onData(data: Buffer) {
+    if (!this.hasStartOfFrame) {
+      const sofIndex = data.indexOf(MBUS_LONG_FRAME_SOF);
+
+      if (sofIndex === -1) {
+        const error = new StartOfFrameNotFoundError();
+        error.withRawTelegram(data);
+
+        this.options.callback(error);
+        return;
+      }
+
+      // The timeout can be already started when we're parsing
+      // a telegram that is split over multiple M-Bus frames.
+      if (!this.fullFrameRequiredTimeout) {
+        this.fullFrameRequiredTimeout = setTimeout(
+          this.boundOnFullFrameRequiredTimeout,
+          this.fullFrameRequiredWithinMs,
+        );
+      }
+      this.telegram = data.subarray(sofIndex, data.length);
+      this.hasStartOfFrame = true;
+    } else {
+      this.telegram = Buffer.concat([this.telegram, data]);
+    }
+
+    if (this.header === undefined && this.telegram.length >= MBUS_HEADER_LENGTH) {
+      try {
+        this.header = decodeMbusHeader(this.telegram);
+        this.headers.push(this.header);
+      } catch (rawError) {
+        const error = toSmartMeterError(rawError);
+        error.withRawTelegram(this.telegram);
+
+        this.options.callback(error);
+        this.skipStartOfFrame();
+        return;
+      }
+    }
+
+    // Wait for more data to decode the header
+    if (!this.header) return;
+
+    const totalLength = this.header.frameLength;
+
+    if (this.telegram.length < totalLength) {
+      this.checkBufferOverflow();
+      return; // Wait for more data
+    }
+
+    // A complete M-Bus frame is available now.
+    const fullMbusFrame = this.telegram.subarray(0, totalLength);
+
+    try {
+      this.footers.push(decodeMbusFooter(fullMbusFrame));
+    } catch (rawError) {
+      const error = toSmartMeterError(rawError);
+      error.withRawTelegram(fullMbusFrame);
+
+      this.options.callback(error);
+      this.skipStartOfFrame();
+      return;
+    }
+
+    // The segments of a DLMS telegram are numbered, a missing segment corrupts the telegram.
+    const expectedSequenceNumber = this.telegrams.length % 16;
+    if (this.header.sequenceNumber !== expectedSequenceNumber) {
+      const error = new SmartMeterDecodeError(
+        `Invalid segment sequence number ${this.header.sequenceNumber}, expected ${expectedSequenceNumber}`,
+      );
+      error.withRawTelegram(Buffer.concat([...this.telegrams, fullMbusFrame]));
+
+      this.options.callback(error);
+
+      // A frame with sequence number 0 is the start of a new telegram.
+      const remainingData =
+        this.header.sequenceNumber === 0 ? this.telegram : this.telegram.subarray(totalLength);
+      this.clear();
+
+      if (remainingData.length > 0) {
+        this.onData(remainingData);
+      }
+
+      return;
+    }
+
+    const frameContent = fullMbusFrame.subarray(
+      this.header.consumedBytes,
+      totalLength - MBUS_FOOTER_LENGTH,
+    );
+    this.cachedContent = Buffer.concat([this.cachedContent, frameContent]);
+    this.telegrams.push(fullMbusFrame);
+
+    // The DLMS telegram is split over multiple M-Bus frames, wait for the final segment.
+    if (!this.header.isFinalSegment) {
+      const remainingData = this.telegram.subarray(totalLength, this.telegram.length);
+      this.hasStartOfFrame = false;
+      this.header = undefined;
+      this.telegram = Buffer.alloc(0);
+      this.checkBufferOverflow();
+
+      // There might be more data in the buffer for the next frame.
+      if (remainingData.length > 0) {
+        this.onData(remainingData);
+      }
+
+      return;
+    }
+
+    // We now have the complete contents. We can parse the DLMS content.
+    clearTimeout(this.fullFrameRequiredTimeout);
+    this.fullFrameRequiredTimeout = undefined;
+
+    try {
+      const diagnostics: ParserDiagnostic[] = [];
+
+      for (const [frame, footer] of this.footers.entries()) {
+        if (!footer.checksumValid) {
+          diagnostics.push({ type: 'crc', message: `Invalid checksum in frame ${frame}`, frame });
+        }
+      }
+
+      if (diagnostics.length > 0 && this.options.crcPolicy === 'strict') {
+        throw new SmartMeterCrcError(diagnostics);
+      }
+
+      const dlmsContent = decodeDLMSContent({
+        frame: this.cachedContent,
+        decryptionKey: this.options.decryptionKey,
+        keyRing: this.options.keyRing,
+        authenticationKey: this.options.authenticationKey,
+        additionalAuthenticatedData: this.options.additionalAuthenticatedData,
+        replayGuard: this.options.replayGuard,
+      });
+
+      const result: MbusParserResult = {
+        mbus: {
+          frames: this.headers.map((header, index) => {
+            const footer = this.footers[index];
+
+            return {
+              control: header.control,
+              address: header.address,
+              controlInformation: header.controlInformation,
+              checksum: {
+                valid: footer.checksumValid,
+                value: footer.checksum,
+              },
+            };
+          }),
+        },
+        // DLMS properties will be filled in by `decodeDlmsObis`
+        dlms: {
+          invokeId: 0,
+          unknownObjects: [],
+          payloadType: '',
+        },
+        cosem: {
+          unknownObjects: [],
+          knownObjects: [],
+          objects: {},
+        },
+        electricity: {},
+        mBus: {},
+        metadata: {},
+        crcValid: diagnostics.length === 0,
+        diagnostics,
+      };
+
+      setEncryptionInfo(result, dlmsContent.encryption);
+
+      decodeDlmsObis(dlmsContent, result, {
+        cosemLibrary: this.options.cosemLibrary,
+        dlmsPayloads: this.options.dlmsPayloads,
+      });
+
+      this.options.callback(null, result, Buffer.concat(this.telegrams));
+    } catch (rawError) {
+      const error = toSmartMeterError(rawError);
+      if (error instanceof SmartMeterError) {
+        error.withRawTelegram(Buffer.concat(this.telegrams));
+      }
+
+      this.options.callback(error);
+    }
+
+    const remainingData = this.telegram.subarray(totalLength, this.telegram.length);
+    this.clear();
+
+    // There might be more data in the buffer for the next telegram.
+    if (remainingData.length > 0) {
+      this.onData(remainingData);
+    }
+  }
+
+  /**
+   * Discards the data up to the next plausible start of frame, the current start of frame turned
+   * out to be noise or the start of a corrupted frame.
+   */
+  private skipStartOfFrame() {
+    const remainingData = findPlausibleStartOfFrame(
+      this.telegram.subarray(1),
+      (data) => data.indexOf(MBUS_LONG_FRAME_SOF),
+      isPlausibleMbusFrame,
+    );
+    this.clear();
+
+    if (remainingData.length > 0) {
+      this.onData(remainingData);
+    }
+  }
+
+  /**
+   * Discards the buffered frames when they exceed the maximum buffer size, e.g. when the final
+   * segment of a telegram is never received. Parsing continues at the next start of frame.
+   */
+  private checkBufferOverflow() {
+    if (!this.bufferOverflows.exceeds(this.currentSize())) return;
+
+    const error = this.bufferOverflows.discard(Buffer.concat([...this.telegrams, this.telegram]));
+    this.clear();
+    this.options.callback(error);
+  }
+
+  private onFullFrameRequiredTimeout() {
+    const error = new SmartMeterTimeoutError();
+    error.withRawTelegram(Buffer.concat([...this.telegrams, this.telegram]));
+    this.options.callback(error);
+
+    // Reset the entire state here, as the full frame was not received.
+    this.clear();
+  }
+
+  destroy(): void {
+    this.options.stream.removeListener('data', this.boundOnData);
+    this.clear();
+  }
+
+  clear(): void {
+    clearTimeout(this.fullFrameRequiredTimeout);
+    this.fullFrameRequiredTimeout = undefined;
+    this.hasStartOfFrame = false;
+    this.header = undefined;
+    this.headers = [];
+    this.footers = [];
+    this.telegrams = [];
+    this.telegram = Buffer.alloc(0);
+    this.cachedContent = Buffer.alloc(0);
+  }
+
+  currentSize(): number {
+    return this.telegram.length + this.telegrams.reduce((acc, t) => acc + t.length, 0);
+  }
+
+  bufferStats(): SmartMeterBufferStats {
+    return this.bufferOverflows.stats(this.currentSize());
+  }
+}
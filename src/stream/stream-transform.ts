@@ -0,0 +1,104 @@
+import { PassThrough, Transform, TransformCallback } from 'node:stream';
+import {
+  SmartMeterBufferOverflowError,
+  SmartMeterTimeoutError,
+  StartOfFrameNotFoundError,
+  toSmartMeterError,
+} from '../util/errors.js';
+import { SmartMeterStreamParser } from './stream.js';
+import {
+  createSmartMeterStreamParser,
+  SmartMeterParserMode,
+  SmartMeterStreamParserOptions,
+} from './stream-factory.js';
+
+export type SmartMeterTransformOptions = Omit<
+  SmartMeterStreamParserOptions,
+  'mode' | 'stream' | 'callback' | 'initialData'
+> & {
+  /**
+   * Skip telegrams that can't be parsed (e.g. due to a CRC or decryption error) instead of
+   * destroying the stream with the error. Defaults to false.
+   */
+  skipErrors?: boolean;
+};
+
+/**
+ * The parser recovers from these errors by itself, e.g. noise on the line before the start of a
+ * telegram. They don't destroy the stream.
+ */
+const isNonFatalError = (error: Error) => {
+  return (
+    error instanceof StartOfFrameNotFoundError ||
+    error instanceof SmartMeterTimeoutError ||
+    error instanceof SmartMeterBufferOverflowError
+  );
+};
+
+/**
+ * Transform stream that takes the raw data of a smart meter and outputs the parsed telegrams as `{
+ * result, raw }` objects. It can be used with `pipeline()`.
+ *
+ * Errors the parser recovers from (a missing start of frame, a timeout or a buffer overflow) are
+ * emitted as `warning` events, other errors destroy the stream unless `skipErrors` is set.
+ */
+export class SmartMeterTransform extends Transform {
+  private input = new PassThrough();
+  private parser: SmartMeterStreamParser;
+
+  constructor(mode: SmartMeterParserMode, { skipErrors, ...options }: SmartMeterTransformOptions) {
+    super({ readableObjectMode: true });
+
+    this.parser = createSmartMeterStreamParser({
+      ...options,
+      mode,
+      stream: this.input,
+      callback: (error, result, raw) => {
+        if (error) {
+          if (isNonFatalError(error)) {
+            this.emit('warning', error);
+          } else if (!skipErrors) {
+            this.destroy(toSmartMeterError(error));
+          }
+          return;
+        }
+
+        this.push({ result, raw });
+      },
+    });
+  }
+
+  _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback) {
+    this.input.write(chunk, callback);
+  }
+
+  _flush(callback: TransformCallback) {
+    // Wait until the parser has processed all the data.
+    this.input.once('end', () => {
+      this.parser.destroy();
+      callback();
+    });
+    this.input.end();
+  }
+
+  _destroy(error: Error | null, callback: (error?: Error | null) => void) {
+    this.parser.destroy();
+    this.input.destroy();
+    callback(error);
+  }
+}
+
+/** Creates a transform stream that parses DSMR telegrams, see {@link SmartMeterTransform}. */
+export const createDsmrTransform = (options: SmartMeterTransformOptions = {}) => {
+  return new SmartMeterTransform('dsmr', options);
+};
+
+/** Creates a transform stream that parses DLMS (HDLC) telegrams, see {@link SmartMeterTransform}. */
+export const createDlmsTransform = (options: SmartMeterTransformOptions = {}) => {
+  return new SmartMeterTransform('dlms', options);
+};
+
+/** Creates a transform stream that parses M-Bus telegrams, see {@link SmartMeterTransform}. */
+export const createMbusTransform = (options: SmartMeterTransformOptions = {}) => {
+  return new SmartMeterTransform('mbus', options);
+};
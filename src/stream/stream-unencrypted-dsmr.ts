@@ -6,10 +6,16 @@ import {
   SmartMeterTimeoutError,
   toSmartMeterError,
 } from '../util/errors.js';
-import { SmartMeterStreamParser } from './stream.js';
+import {
+  SmartMeterBufferOverflows,
+  SmartMeterBufferStats,
+  SmartMeterStreamParser,
+} from './stream.js';
+import { resolveTimezone } from '../util/timezone.js';
 
 export class UnencryptedDSMRStreamParser implements SmartMeterStreamParser {
   private telegram: Buffer = Buffer.alloc(0);
+  private bufferOverflows: SmartMeterBufferOverflows;
   private hasStartOfFrame = false;
   private eofRegex: RegExp;
   private boundOnData: UnencryptedDSMRStreamParser['onData'];
@@ -21,12 +27,16 @@ export class UnencryptedDSMRStreamParser implements SmartMeterStreamParser {
   public readonly startOfFrameByte = 0x2f; // '/'
 
   constructor(private options: DSMRStreamParserOptions) {
+    // Throws on an invalid timezone, instead of failing on every telegram.
+    resolveTimezone(options.timezone);
+
     this.boundOnData = this.onData.bind(this);
     this.boundOnFullFrameRequiredTimeout = this.onFullFrameRequiredTimeout.bind(this);
     this.options.stream.addListener('data', this.boundOnData);
 
     this.encoding = options.encoding ?? DEFAULT_FRAME_ENCODING;
     this.fullFrameRequiredTimeoutMs = options.fullFrameRequiredWithinMs ?? 5000;
+    this.bufferOverflows = new SmartMeterBufferOverflows(options.maxBufferSize);
 
     // End of frame is \r\n!<CRC>\r\n with the CRC being optional as
     // it is only for DSMR 4 and up.
@@ -72,7 +82,10 @@ export class UnencryptedDSMRStreamParser implements SmartMeterStreamParser {
       // Note: add 1 to the index, as we skip the first byte when doing indexOf.
       const sofIndex = this.telegram.subarray(1).indexOf('/') + 1;
 
-      if (sofIndex === 0) return;
+      if (sofIndex === 0) {
+        this.checkBufferOverflow();
+        return;
+      }
 
       // Check if the characters before the sof char are newlines. Otherwise the sof
       // can be part of a text message element of a telegram.
@@ -81,6 +94,7 @@ export class UnencryptedDSMRStreamParser implements SmartMeterStreamParser {
 
         // Check if the bytes before the start of frame are CRLF.
         if (bytesBeforeSof[0] !== CR || bytesBeforeSof[1] !== LF) {
+          this.checkBufferOverflow();
           return;
         }
       }
@@ -105,6 +119,9 @@ export class UnencryptedDSMRStreamParser implements SmartMeterStreamParser {
       const telegram = this.telegram.subarray(0, frameLength);
       const result = parseDsmr({
         telegram,
+        timezone: this.options.timezone,
+        cosemLibrary: this.options.cosemLibrary,
+        crcPolicy: this.options.crcPolicy,
       });
 
       this.options.callback(null, result, telegram);
@@ -128,6 +145,30 @@ export class UnencryptedDSMRStreamParser implements SmartMeterStreamParser {
     }
   }
 
+  /**
+   * Discards the buffered data when it exceeds the maximum buffer size (e.g. a noisy line without
+   * an end of frame). The data is discarded up to the next start of frame at the start of a line,
+   * such that the remaining data fits in the buffer.
+   */
+  private checkBufferOverflow() {
+    if (!this.bufferOverflows.exceeds(this.telegram.length)) return;
+
+    const searchFrom = Math.max(1, this.telegram.length - this.bufferOverflows.maxBufferSize - 2);
+    const crlfSofIndex = this.telegram.indexOf('\r\n/', searchFrom);
+    const sofIndex = crlfSofIndex === -1 ? this.telegram.length : crlfSofIndex + 2;
+
+    const discarded = this.telegram.subarray(0, sofIndex);
+    const remainingData = this.telegram.subarray(sofIndex, this.telegram.length);
+
+    const error = this.bufferOverflows.discard(discarded);
+    this.clear();
+    this.options.callback(error);
+
+    if (remainingData.length > 0) {
+      this.onData(remainingData);
+    }
+  }
+
   private onFullFrameRequiredTimeout() {
     this.tryParseTelegram(this.telegram.length, new SmartMeterTimeoutError());
 
@@ -149,4 +190,8 @@ export class UnencryptedDSMRStreamParser implements SmartMeterStreamParser {
   currentSize() {
     return this.telegram.length;
   }
+
+  bufferStats(): SmartMeterBufferStats {
+    return this.bufferOverflows.stats(this.currentSize());
+  }
 }
@@ -1,4 +1,5 @@
 import { SmartMeterParserResult } from '../index.js';
+import { SmartMeterBufferOverflowError } from '../util/errors.js';
 
 export type SmartMeterStreamParser = {
   /** Stop the stream parser. */
@@ -7,11 +8,106 @@ export type SmartMeterStreamParser = {
   clear(): void;
   /** Size in bytes of the data that is cached */
   currentSize(): number;
+  /** Size of the cached data and the data that was discarded because the buffer overflowed */
+  bufferStats(): SmartMeterBufferStats;
   /** The byte that indicates a start of frame was found for this parser */
   readonly startOfFrameByte: number;
 };
 
+export type SmartMeterBufferStats = {
+  /** Size in bytes of the data that is cached */
+  currentSize: number;
+  /** Total number of bytes that were discarded because the buffer overflowed */
+  discardedBytes: number;
+  /** Number of times the buffer overflowed */
+  overflows: number;
+};
+
+export type SmartMeterBufferOptions = {
+  /**
+   * Maximum size in bytes of the buffer, defaults to 64 KiB. Data that doesn't fit (e.g. noise
+   * without an end of frame or a telegram that is split over too many frames) is discarded up to
+   * the next start of frame and reported with a `SmartMeterBufferOverflowError`.
+   */
+  maxBufferSize?: number;
+};
+
+export const DEFAULT_MAX_BUFFER_SIZE = 64 * 1024;
+
+/** Keeps track of the data a stream parser discarded because its buffer overflowed. */
+export class SmartMeterBufferOverflows {
+  public readonly maxBufferSize: number;
+
+  private discardedBytes = 0;
+  private overflows = 0;
+
+  constructor(maxBufferSize?: number) {
+    this.maxBufferSize = maxBufferSize ?? DEFAULT_MAX_BUFFER_SIZE;
+  }
+
+  /** Whether the buffer exceeds the maximum buffer size */
+  exceeds(currentSize: number) {
+    return currentSize > this.maxBufferSize;
+  }
+
+  /** Counts an overflow of which the given number of bytes was discarded. */
+  count(discardedBytes: number) {
+    this.discardedBytes += discardedBytes;
+    this.overflows++;
+  }
+
+  /**
+   * Counts an overflow of which the given data was discarded.
+   *
+   * @returns The error to report to the callback
+   */
+  discard(discarded: Buffer) {
+    this.count(discarded.length);
+
+    const error = new SmartMeterBufferOverflowError(this.maxBufferSize);
+    error.withRawTelegram(discarded);
+    return error;
+  }
+
+  stats(currentSize: number): SmartMeterBufferStats {
+    return {
+      currentSize,
+      discardedBytes: this.discardedBytes,
+      overflows: this.overflows,
+    };
+  }
+}
+
 export type SmartMeterStreamCallback<
   TResult extends SmartMeterParserResult = SmartMeterParserResult,
 > = ((error: null, result: TResult, rawData: Buffer) => void) &
   ((error: Error, result?: undefined, rawData?: undefined) => void);
+
+/**
+ * Returns the data from the next start of frame at which a frame can start, skipping all start of
+ * frame bytes that can't be the start of a valid frame. This is done in a loop so a long run of
+ * start of frame bytes (e.g. line noise) results in a single resync instead of a deep recursion.
+ *
+ * @param data The data after the start of frame that turned out to be invalid
+ * @param indexOfStartOfFrame Returns the index of the next start of frame byte, or -1
+ * @param isPlausibleStartOfFrame Returns false when the data can't be the start of a valid frame.
+ *   Data that is too short to decide on is plausible.
+ * @returns The data from the next plausible start of frame, empty when there is none
+ */
+export const findPlausibleStartOfFrame = (
+  data: Buffer,
+  indexOfStartOfFrame: (data: Buffer) => number,
+  isPlausibleStartOfFrame: (data: Buffer) => boolean,
+): Buffer => {
+  let remainingData = data;
+
+  for (;;) {
+    const sofIndex = indexOfStartOfFrame(remainingData);
+    if (sofIndex === -1) return Buffer.alloc(0);
+
+    remainingData = remainingData.subarray(sofIndex);
+    if (isPlausibleStartOfFrame(remainingData)) return remainingData;
+
+    remainingData = remainingData.subarray(1);
+  }
+};
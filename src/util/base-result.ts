@@ -1,12 +1,88 @@
+export type CosemObject = {
+  /**
+   * Value as sent by the meter, octet strings are hex encoded. 64-bit integers are kept as bigint,
+   * the scaler isn't applied to them.
+   */
+  value: number | bigint | string | null;
+  unit: string | null;
+  /**
+   * Power of ten the value was multiplied with, null when no scaler was applied. For DLMS values
+   * without a scaler this is the default scaler of the OBIS code.
+   */
+  scaler: number | null;
+  /** The DLMS data type or the type of the DSMR value (`number`, `string`, `octet_string` or `raw`) */
+  rawType: string;
+  source: 'dsmr' | 'dlms';
+};
+
+/**
+ * How a telegram with an invalid CRC is handled:
+ *
+ * - `strict`: the telegram is rejected with a {@link SmartMeterCrcError}
+ * - `lenient`: the telegram is parsed and `crcValid` is set to false (default)
+ * - `repair`: like `lenient`, but lines that fail format validation are dropped (DSMR only)
+ */
+export type CrcPolicy = 'strict' | 'lenient' | 'repair';
+
+export type ParserDiagnostic = {
+  /** `crc` for an invalid CRC/checksum, `format` for a line that doesn't match its expected format */
+  type: 'crc' | 'format';
+  message: string;
+  /** Index of the line in the DSMR telegram */
+  line?: number;
+  /** Index of the HDLC or M-Bus frame */
+  frame?: number;
+  /** Contents of the line (DSMR only) */
+  content?: string;
+  /** True when the line was left out of the result because of the `repair` CRC policy */
+  dropped?: boolean;
+};
+
+export type EncryptionInfo = {
+  /** System title of the meter, hex encoded */
+  systemTitle: string;
+  frameCounter: number;
+  /** Security control byte, e.g. 0x30 for frames that are authenticated and encrypted */
+  securityType: number;
+  /** Whether the GCM tag was verified, not set for frames without a tag */
+  authenticated?: boolean;
+  /** Id of the key of the key ring that authenticated the frame, not set for frames without a tag */
+  keyId?: string;
+};
+
+/** State of a disconnect control object, like the breaker of the meter or the valve of a gas meter */
+export type DisconnectControlState = 'disconnected' | 'connected' | 'ready-for-reconnection';
+
+export type MbusReading = {
+  value: number;
+  unit?: string;
+  /** Not set for DLMS, as the capture time is a separate attribute */
+  timestamp?: Date;
+  timestampRaw?: string; // DSMR
+  timestampDst?: boolean; // DSMR
+};
+
 export type BaseParserResult = {
   cosem: {
     id?: string;
     knownObjects: string[];
     unknownObjects: string[];
+    /** All COSEM objects (known and unknown) keyed by their OBIS code */
+    objects: Record<string, CosemObject>;
   };
   metadata: {
     dsmrVersion?: number;
-    timestamp?: Date | string;
+    /** Only set when the timestamp is valid */
+    timestamp?: Date;
+    /**
+     * Timestamp as it was sent by the meter (DSMR), or the hex encoded date-time when it couldn't
+     * be decoded (DLMS)
+     */
+    timestampRaw?: string;
+    /** Deviation of the local time to UTC in minutes (DLMS only) */
+    timestampDeviation?: number;
+    /** True when daylight saving time was active at the time of the timestamp */
+    timestampDst?: boolean;
     equipmentId?: string;
     serialNumber?: string;
     events?: {
@@ -22,6 +98,11 @@ export type BaseParserResult = {
         l2?: number;
         l3?: number;
       };
+      /** Log of the long power failures, the end of the failure and its duration */
+      powerFailureLog?: {
+        end: Date;
+        durationSeconds: number;
+      }[];
     };
     textMessage?: string;
     numericMessage?: number;
@@ -30,7 +111,9 @@ export type BaseParserResult = {
     total?: {
       received?: number;
       returned?: number;
+      /** In kvarh */
       reactiveReturned?: number;
+      /** In kvarh */
       reactiveReceived?: number;
     };
     tariffs?: Partial<
@@ -39,7 +122,9 @@ export type BaseParserResult = {
         {
           received?: number;
           returned?: number;
+          /** In kvarh */
           reactiveReturned?: number;
+          /** In kvarh */
           reactiveReceived?: number;
         }
       >
@@ -67,18 +152,66 @@ export type BaseParserResult = {
       l2?: number;
       l3?: number;
     };
+    /** In kvar, like the per phase reactive power */
     reactivePowerReturnedTotal?: number;
     reactivePowerReturned?: {
       l1?: number;
       l2?: number;
       l3?: number;
     };
+    /** In kvar, like the per phase reactive power */
     reactivePowerReceivedTotal?: number;
     reactivePowerReceived?: {
       l1?: number;
       l2?: number;
       l3?: number;
     };
+    breakerState?: DisconnectControlState;
+    /** Threshold of the limiter, powers are in W or VA */
+    limiterThreshold?: {
+      value: number;
+      unit: string | null;
+    };
+    /** In A */
+    fuseSupervisionThreshold?: number;
+  };
+  powerQuality?: {
+    /** In Hz */
+    frequency?: number;
+    powerFactor?: {
+      total?: number;
+      l1?: number;
+      l2?: number;
+      l3?: number;
+    };
+    /** In VA */
+    apparentPowerReceivedTotal?: number;
+    /** In VA */
+    apparentPowerReturnedTotal?: number;
+    /**
+     * Phase angles in degrees, keyed by value group E of 1-0:81.7.E. The tens are the reference
+     * phasor and the units the measured phasor: 0-2 for U(L1-L3), 4-6 for I(L1-L3) and 7 for I(N).
+     */
+    phaseAngles?: Partial<Record<number, number>>;
+  };
+  /** Peak demand registers used for capacity tariffs (e-MUCS) */
+  demand?: {
+    /** Average power of the current quarter-hour in W */
+    currentAverage?: number;
+    /** Highest quarter-hour average power of the current month in W */
+    monthPeak?: {
+      timestamp: Date;
+      timestampRaw?: string;
+      timestampDst?: boolean;
+      value: number;
+    };
+    /** Highest quarter-hour average power of the previous (up to 13) months in W */
+    history?: {
+      /** Start of the month */
+      start: Date;
+      timestamp: Date;
+      value: number;
+    }[];
   };
   mBus: Record<
     number,
@@ -87,12 +220,26 @@ export type BaseParserResult = {
       equipmentId?: string;
       value?: number;
       unit?: string;
-      timestamp?: Date | string;
+      timestamp?: Date;
+      timestampRaw?: string; // DSMR
+      timestampDst?: boolean; // DSMR
       recordingPeriodMinutes?: number; // DSMR
+      breakerState?: DisconnectControlState;
+      valvePosition?: DisconnectControlState;
+      /**
+       * Readings of 0-n:24.2.E keyed by value group E, e.g. 1 for the gas volume that isn't
+       * temperature corrected and 3 for the corrected gas volume. The value, unit and timestamp of
+       * the device are those of channel 1, or of the lowest channel when channel 1 isn't sent.
+       */
+      channels?: Partial<Record<number, MbusReading>>;
     }
   >;
-  /** Only set when encryption is used */
+  /** Only set when encryption is used and the frame has a GCM tag */
   additionalAuthenticatedDataValid?: boolean;
+  /** Only set when encryption is used */
+  encryption?: EncryptionInfo;
   /** Only set when the frames contain a crc */
   crcValid?: boolean;
+  /** Issues found while parsing, e.g. malformed lines or frames with an invalid CRC */
+  diagnostics: ParserDiagnostic[];
 };
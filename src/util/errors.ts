@@ -1,3 +1,5 @@
+import type { ParserDiagnostic } from './base-result.js';
+
 export class SmartMeterError extends Error {
   rawTelegram?: Buffer;
 
@@ -14,6 +16,13 @@ export class SmartMeterParserError extends SmartMeterError {
   }
 }
 
+export class SmartMeterCrcError extends SmartMeterParserError {
+  constructor(public readonly diagnostics: ParserDiagnostic[]) {
+    super(`Invalid CRC: ${diagnostics.map((diagnostic) => diagnostic.message).join(', ')}`);
+    this.name = 'CrcError';
+  }
+}
+
 export class SmartMeterDecryptionError extends SmartMeterError {
   constructor(originalError: unknown) {
     super('Decryption failed: ', { cause: originalError });
@@ -29,6 +38,17 @@ export class SmartMeterDecryptionError extends SmartMeterError {
   }
 }
 
+/**
+ * The frame could be decrypted, but the GCM tag doesn't match (e.g. due to an invalid
+ * authentication key)
+ */
+export class SmartMeterAuthenticationError extends SmartMeterDecryptionError {
+  constructor(originalError: unknown) {
+    super(originalError);
+    this.name = 'AuthenticationError';
+  }
+}
+
 export class SmartMeterDecodeError extends SmartMeterError {
   constructor(message: string) {
     super(message);
@@ -57,6 +77,34 @@ export class SmartMeterTimeoutError extends SmartMeterDecodeError {
   }
 }
 
+/** The buffered data exceeded the maximum buffer size without a complete frame being found. */
+export class SmartMeterBufferOverflowError extends SmartMeterDecodeError {
+  constructor(public readonly maxBufferSize: number) {
+    super(`Buffer exceeded the maximum size of ${maxBufferSize} bytes`);
+    this.name = 'BufferOverflowError';
+  }
+}
+
+export class SmartMeterStreamEndedError extends SmartMeterError {
+  constructor() {
+    super('Stream ended before a telegram was received');
+    this.name = 'StreamEndedError';
+  }
+}
+
+export class SmartMeterReplayError extends SmartMeterError {
+  constructor(
+    public readonly systemTitle: string,
+    public readonly frameCounter: number,
+    public readonly lastFrameCounter: number,
+  ) {
+    super(
+      `Frame counter ${frameCounter} of ${systemTitle} is not higher than the last frame counter ${lastFrameCounter}`,
+    );
+    this.name = 'ReplayError';
+  }
+}
+
 export class SmartMeterUnknownMessageTypeError extends SmartMeterError {
   constructor(message: string) {
     super(message);
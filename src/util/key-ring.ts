@@ -0,0 +1,39 @@
+export type KeyRingEntry = {
+  /** Identifier of the key, this is reported in the result when the key matches */
+  id: string;
+  /** Decryption key */
+  key: Buffer;
+  /** Authentication key, defaults to the authentication key of the parser */
+  authenticationKey?: Buffer;
+};
+
+/** Returns the keys that can belong to the meter with the given (hex encoded) system title. */
+export type KeyRingLookup = (systemTitle: string) => KeyRingEntry | KeyRingEntry[] | undefined;
+
+/**
+ * A set of keys of which the right one is picked per meter. The keys are tried against the GCM tag
+ * of a frame, the key that matches is remembered per system title and is tried first next time.
+ */
+export class SmartMeterKeyRing {
+  /** Id of the matching key per system title */
+  private readonly matches = new Map<string, string>();
+
+  constructor(private readonly keys: KeyRingEntry[] | KeyRingLookup) {}
+
+  /** Returns the keys to try for the system title, the key that matched before comes first. */
+  getCandidates(systemTitle: string) {
+    const keys = typeof this.keys === 'function' ? this.keys(systemTitle) : this.keys;
+    const candidates = Array.isArray(keys) ? keys : keys ? [keys] : [];
+    const matchId = this.matches.get(systemTitle);
+
+    return [
+      ...candidates.filter((candidate) => candidate.id === matchId),
+      ...candidates.filter((candidate) => candidate.id !== matchId),
+    ];
+  }
+
+  /** Remembers the key that authenticated a frame of the system title. */
+  setMatch(systemTitle: string, entry: KeyRingEntry) {
+    this.matches.set(systemTitle, entry.id);
+  }
+}
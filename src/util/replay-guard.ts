@@ -0,0 +1,54 @@
+import type { EncryptionInfo } from './base-result.js';
+import { SmartMeterReplayError } from './errors.js';
+
+/**
+ * Storage of the last accepted frame counter per system title. A `Map<string, number>` can be used
+ * directly, implement this to persist the frame counters between restarts.
+ *
+ * `get` and `set` are called while a telegram is parsed, so they are synchronous. A store that is
+ * backed by a file or database keeps the frame counters in memory and implements `load` and `flush`
+ * to read and write them asynchronously.
+ */
+export type FrameCounterStore = {
+  get(systemTitle: string): number | undefined;
+  set(systemTitle: string, frameCounter: number): void;
+  /** Loads the persisted frame counters, called by {@link SmartMeterReplayGuard.load} */
+  load?(): Promise<void>;
+  /** Persists the frame counters that were set, called by {@link SmartMeterReplayGuard.flush} */
+  flush?(): Promise<void>;
+};
+
+/**
+ * Rejects encrypted telegrams of which the frame counter doesn't strictly increase per system
+ * title, which protects against replayed telegrams.
+ */
+export class SmartMeterReplayGuard {
+  constructor(private readonly store: FrameCounterStore = new Map<string, number>()) {}
+
+  /** Loads the frame counters of the store, wait for this before the first telegram is parsed. */
+  async load() {
+    await this.store.load?.();
+  }
+
+  /** Persists the accepted frame counters, e.g. periodically or before the application exits. */
+  async flush() {
+    await this.store.flush?.();
+  }
+
+  /** @throws {SmartMeterReplayError} If the frame counter is not higher than the last accepted one */
+  check({ systemTitle, frameCounter }: Pick<EncryptionInfo, 'systemTitle' | 'frameCounter'>) {
+    const lastFrameCounter = this.store.get(systemTitle);
+
+    if (lastFrameCounter !== undefined && frameCounter <= lastFrameCounter) {
+      throw new SmartMeterReplayError(systemTitle, frameCounter, lastFrameCounter);
+    }
+  }
+
+  /**
+   * Remembers the frame counter of a telegram. Only call this for authenticated telegrams,
+   * otherwise a forged telegram with a high frame counter blocks all following telegrams.
+   */
+  accept({ systemTitle, frameCounter }: Pick<EncryptionInfo, 'systemTitle' | 'frameCounter'>) {
+    this.store.set(systemTitle, frameCounter);
+  }
+}
@@ -0,0 +1,119 @@
+import { SmartMeterError } from './errors.js';
+
+export const DEFAULT_TIMEZONE = 'Europe/Amsterdam';
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timezone: string) => {
+  let formatter = formatters.get(timezone);
+
+  if (!formatter) {
+    try {
+      formatter = new Intl.DateTimeFormat('en-US', {
+        timeZone: timezone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: 'numeric',
+        second: 'numeric',
+      });
+    } catch (error) {
+      throw new SmartMeterError(`Invalid timezone ${timezone}`, { cause: error });
+    }
+
+    formatters.set(timezone, formatter);
+  }
+
+  return formatter;
+};
+
+/**
+ * Resolves the timezone option of the DSMR parsers, `false` means that timestamps are handled as if
+ * they are UTC.
+ *
+ * @throws SmartMeterError when the timezone isn't a valid IANA timezone.
+ */
+export const resolveTimezone = (timezone: string | boolean = true) => {
+  if (timezone === false) return undefined;
+
+  const resolved = timezone === true ? DEFAULT_TIMEZONE : timezone;
+  getFormatter(resolved);
+
+  return resolved;
+};
+
+/** Returns the offset of the timezone to UTC in milliseconds at the given moment. */
+const getTimezoneOffset = (timezone: string, timestamp: number) => {
+  const parts: Partial<Record<Intl.DateTimeFormatPartTypes, number>> = {};
+
+  for (const part of getFormatter(timezone).formatToParts(new Date(timestamp))) {
+    parts[part.type] = parseInt(part.value, 10);
+  }
+
+  const localTimestamp = Date.UTC(
+    parts.year ?? 0,
+    (parts.month ?? 1) - 1,
+    parts.day ?? 1,
+    parts.hour ?? 0,
+    parts.minute ?? 0,
+    parts.second ?? 0,
+  );
+
+  // The formatter doesn't include milliseconds.
+  return localTimestamp - (timestamp - (((timestamp % 1000) + 1000) % 1000));
+};
+
+/**
+ * Converts a local time in the given timezone to a date.
+ *
+ * During the autumn transition an hour occurs twice, in that case the daylight saving time flag is
+ * used to pick the right moment. Local times that don't exist (during the spring transition) are
+ * shifted forward.
+ *
+ * @param localTimestamp The local time as if it was UTC (e.g. `Date.UTC(year, month, ...)`)
+ * @param dst When known, whether daylight saving time was active.
+ */
+export const localTimeToDate = (localTimestamp: number, timezone: string, dst?: boolean) => {
+  const hour = 60 * 60 * 1000;
+
+  // Offsets of a timezone don't change more than once within a day.
+  const offsets = new Set([
+    getTimezoneOffset(timezone, localTimestamp - 12 * hour),
+    getTimezoneOffset(timezone, localTimestamp + 12 * hour),
+  ]);
+
+  const candidates = [...offsets]
+    .filter((offset) => getTimezoneOffset(timezone, localTimestamp - offset) === offset)
+    .sort((a, b) => b - a); // Largest offset (daylight saving time) first
+
+  if (candidates.length === 0) {
+    // The local time doesn't exist, use the offset before the transition.
+    return new Date(localTimestamp - getTimezoneOffset(timezone, localTimestamp - 12 * hour));
+  }
+
+  const offset =
+    candidates.length > 1 && dst === false ? candidates[candidates.length - 1] : candidates[0];
+
+  return new Date(localTimestamp - offset);
+};
+
+/**
+ * Converts a date to the local time in the given timezone, the inverse of {@link localTimeToDate}.
+ *
+ * @returns The local time as if it was UTC and whether daylight saving time is active.
+ */
+export const dateToLocalTime = (date: Date, timezone: string) => {
+  const timestamp = date.getTime();
+  const offset = getTimezoneOffset(timezone, timestamp);
+  const year = date.getUTCFullYear();
+
+  // Daylight saving time has a larger offset than the standard time of the timezone.
+  const standardOffset = Math.min(
+    getTimezoneOffset(timezone, Date.UTC(year, 0, 1)),
+    getTimezoneOffset(timezone, Date.UTC(year, 6, 1)),
+  );
+
+  return { localTimestamp: timestamp + offset, dst: offset > standardOffset };
+};
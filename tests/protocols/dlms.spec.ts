@@ -0,0 +1,643 @@
+import assert from 'node:assert';
+import { PassThrough } from 'node:stream';
+import { describe, it, mock } from 'node:test';
+
+import {
+  getAllDLMSTestTelegramTestCases,
+  readDlmsTelegramFromFiles,
+  TEST_AAD,
+  TEST_DECRYPTION_KEY,
+} from '../test-utils.js';
+import {
+  buildDlmsTelegram,
+  DlmsPayloads,
+  DlmsTelegramBuilderOptions,
+  DlmsStreamParser,
+  KeyRingEntry,
+  makeDlmsPayload,
+  makeIskraDlmsPayload,
+  SmartMeterKeyRing,
+} from '../../src/index.js';
+import { decodeDLMSContent } from '../../src/protocols/dlms.js';
+import { DlmsStreamParserOptions } from '../../src/stream/stream-dlms.js';
+import {
+  ENCRYPTED_DLMS_AUTHENTICATION_TAG,
+  ENCRYPTED_DLMS_DED_TELEGRAM_SOF,
+} from '../../src/protocols/encryption.js';
+import { DlmsDataTypes, ParsedDlmsData } from '../../src/protocols/dlms-datatype.js';
+import { decodeCosemDateTime } from '../../src/protocols/dlms-datetime.js';
+import {
+  decodeHdlcHeader,
+  HDLC_FOOTER_LENGTH,
+  HdlcParserResult,
+} from '../../src/protocols/hdlc.js';
+
+describe('DLMS', async () => {
+  const parseDlmsTelegram = (
+    input: Buffer,
+    options: Omit<DlmsStreamParserOptions, 'stream' | 'callback'> = {},
+  ) => {
+    const stream = new PassThrough();
+    const callback = mock.fn();
+
+    const instance = new DlmsStreamParser({
+      stream,
+      callback,
+      additionalAuthenticatedData: TEST_AAD,
+      ...options,
+    });
+
+    stream.write(input);
+    stream.end();
+    instance.destroy();
+
+    return callback.mock.calls;
+  };
+
+  /** Decodes a DLMS test telegram into the options that were used to build it. */
+  const decodeDlmsTelegram = (input: Buffer) => {
+    const header = decodeHdlcHeader(input);
+    const content = input.subarray(header.consumedBytes + 3, -HDLC_FOOTER_LENGTH);
+    const { data, invokeId, timestamp } = decodeDLMSContent({ frame: content });
+
+    return {
+      data,
+      invokeId,
+      timestamp,
+      hdlc: {
+        destinationAddress: header.destinationAddress,
+        sourceAddress: header.sourceAddress,
+        controlByte: header.controlByte,
+      },
+    };
+  };
+
+  /**
+   * Builds aidon-example-2 again with the given options and parses it, the electricity values of
+   * the result have to match those of the original telegram.
+   */
+  const rebuildExampleTelegram = async (
+    options: Partial<DlmsTelegramBuilderOptions>,
+    parserOptions?: Omit<DlmsStreamParserOptions, 'stream' | 'callback'>,
+  ) => {
+    const { input, output } = await readDlmsTelegramFromFiles(
+      './tests/telegrams/dlms/aidon-example-2',
+    );
+
+    const telegram = buildDlmsTelegram({ ...decodeDlmsTelegram(input), ...options });
+    const calls = parseDlmsTelegram(telegram, parserOptions);
+    const result = calls[0].arguments[1] as HdlcParserResult;
+
+    assert.equal(calls.length, 1);
+    assert.equal(calls[0].arguments[0], null);
+    assert.deepStrictEqual(result.electricity, (output as HdlcParserResult).electricity);
+
+    return { input, result };
+  };
+
+  describe('Build telegram', async () => {
+    // These telegrams are incomplete (they end with missing values), so they can't be encoded.
+    const unsupportedTestCases = ['described-list', 'iskra-1'];
+
+    for (const testCase of await getAllDLMSTestTelegramTestCases()) {
+      if (testCase.endsWith('-segmented') || unsupportedTestCases.includes(testCase)) continue;
+
+      it(`Builds ${testCase}`, async () => {
+        const { input } = await readDlmsTelegramFromFiles(`./tests/telegrams/dlms/${testCase}`);
+
+        assert.deepStrictEqual(buildDlmsTelegram(decodeDlmsTelegram(input)), input);
+      });
+    }
+
+    it('Builds a segmented telegram', async () => {
+      const { input, result } = await rebuildExampleTelegram({ hdlc: { maxContentLength: 100 } });
+
+      assert.equal(result.hdlc.headers.length, Math.ceil((input.length - 15) / 100));
+      assert.equal(result.crcValid, true);
+    });
+
+    it('Builds an encrypted telegram', async () => {
+      const { result } = await rebuildExampleTelegram(
+        {
+          encryption: {
+            key: TEST_DECRYPTION_KEY,
+            systemTitle: Buffer.from('systitle', 'ascii'),
+            frameCounter: 1234,
+            additionalAuthenticatedData: TEST_AAD,
+          },
+        },
+        { decryptionKey: TEST_DECRYPTION_KEY },
+      );
+
+      assert.equal(result.additionalAuthenticatedDataValid, true);
+    });
+
+    it('Builds an authenticated telegram', async () => {
+      // Without a key the telegram can be parsed, but it isn't verified.
+      for (const decryptionKey of [TEST_DECRYPTION_KEY, undefined]) {
+        const { result } = await rebuildExampleTelegram(
+          {
+            encryption: {
+              key: TEST_DECRYPTION_KEY,
+              systemTitle: Buffer.from('systitle', 'ascii'),
+              frameCounter: 1234,
+              additionalAuthenticatedData: TEST_AAD,
+              securityType: ENCRYPTED_DLMS_AUTHENTICATION_TAG,
+              sof: ENCRYPTED_DLMS_DED_TELEGRAM_SOF,
+            },
+          },
+          { decryptionKey },
+        );
+
+        assert.equal(result.additionalAuthenticatedDataValid, decryptionKey ? true : undefined);
+        assert.equal(result.encryption?.securityType, ENCRYPTED_DLMS_AUTHENTICATION_TAG);
+        assert.equal(result.encryption?.authenticated, decryptionKey ? true : undefined);
+      }
+    });
+  });
+
+  describe('Key ring', () => {
+    it('Decrypts a telegram with a key ring', async () => {
+      const systemTitle = Buffer.from('systitle', 'ascii');
+      const keys: Record<string, KeyRingEntry[]> = {
+        [systemTitle.toString('hex')]: [
+          { id: 'invalid', key: Buffer.from('invalid-key12345', 'ascii') },
+          { id: 'valid', key: TEST_DECRYPTION_KEY },
+        ],
+      };
+
+      const { result } = await rebuildExampleTelegram(
+        {
+          encryption: {
+            key: TEST_DECRYPTION_KEY,
+            systemTitle,
+            frameCounter: 1234,
+            authenticationKey: TEST_AAD,
+          },
+        },
+        {
+          keyRing: new SmartMeterKeyRing((title) => keys[title]),
+          authenticationKey: TEST_AAD,
+        },
+      );
+
+      assert.equal(result.additionalAuthenticatedDataValid, true);
+      assert.deepStrictEqual(result.encryption, {
+        systemTitle: systemTitle.toString('hex'),
+        frameCounter: 1234,
+        securityType: 0x30,
+        authenticated: true,
+        keyId: 'valid',
+      });
+    });
+  });
+
+  describe('Payloads', () => {
+    const telegram = buildDlmsTelegram({
+      data: {
+        type: 'structure',
+        value: [
+          { type: 'octet_string', value: Buffer.from('METER-1', 'ascii') },
+          { type: 'uint32', value: 123456 },
+          { type: 'uint16', value: 2301 },
+        ],
+      },
+    });
+
+    const positionalPayload = makeIskraDlmsPayload('Positional', {
+      '0-0:96.1.1': {
+        type: 'string',
+        test: (value) => Buffer.isBuffer(value.value),
+        convert: (value) => (Buffer.isBuffer(value.value) ? value.value.toString('ascii') : null),
+      },
+      '1-0:1.8.0': 'number',
+      '1-0:32.7.0': 'number',
+    });
+
+    it('Parses a registered positional payload', () => {
+      const dlmsPayloads = DlmsPayloads.extend().addPayload(positionalPayload, { priority: 1 });
+
+      const calls = parseDlmsTelegram(telegram, { dlmsPayloads });
+      const result = calls[0].arguments[1] as HdlcParserResult;
+
+      assert.equal(calls.length, 1);
+      assert.equal(calls[0].arguments[0], null);
+      assert.equal(result.dlms.payloadType, 'Positional');
+      assert.equal(result.metadata.equipmentId, 'METER-1');
+      assert.equal(result.electricity.total?.received, 123456);
+      assert.equal(result.electricity.voltage?.l1, 230.1);
+    });
+
+    it('Tries payloads in order of priority', async () => {
+      const { input } = await readDlmsTelegramFromFiles('./tests/telegrams/dlms/aidon-example-2');
+      const catchAll = makeDlmsPayload('CatchAll', {
+        detector: () => true,
+        parser: (_dlms, result) => {
+          result.metadata.textMessage = 'CatchAll';
+        },
+      });
+
+      const lowPriority = DlmsPayloads.extend().addPayload(catchAll);
+      const highPriority = DlmsPayloads.extend().addPayload(catchAll, { priority: 1 });
+
+      const lowResult = parseDlmsTelegram(input, { dlmsPayloads: lowPriority })[0]
+        .arguments[1] as HdlcParserResult;
+      const highResult = parseDlmsTelegram(input, { dlmsPayloads: highPriority })[0]
+        .arguments[1] as HdlcParserResult;
+
+      assert.equal(lowResult.dlms.payloadType, 'BasicStructure');
+      assert.equal(highResult.dlms.payloadType, 'CatchAll');
+      assert.equal(highResult.metadata.textMessage, 'CatchAll');
+    });
+
+    it('Does not modify the default payloads when extending', () => {
+      const dlmsPayloads = DlmsPayloads.extend()
+        .addPayload(positionalPayload)
+        .removePayload('BasicList');
+
+      assert.equal(DlmsPayloads.payloadDecoders.length, dlmsPayloads.payloadDecoders.length);
+      assert.ok(DlmsPayloads.payloadDecoders.some(({ payload }) => payload.name === 'BasicList'));
+      assert.ok(!dlmsPayloads.payloadDecoders.some(({ payload }) => payload.name === 'BasicList'));
+    });
+  });
+
+  describe('Power failure log', () => {
+    it('Parses a profile generic buffer', () => {
+      const obisCode = Buffer.from([1, 0, 99, 97, 0, 255]);
+      const entry = (dateTime: string, durationSeconds: number): ParsedDlmsData => ({
+        type: 'structure',
+        value: [
+          { type: 'octet_string', value: Buffer.from(dateTime, 'hex') },
+          { type: 'uint32', value: durationSeconds },
+        ],
+      });
+
+      const telegram = buildDlmsTelegram({
+        data: {
+          type: 'array',
+          value: [
+            {
+              type: 'structure',
+              value: [
+                { type: 'octet_string', value: obisCode },
+                {
+                  type: 'array',
+                  value: [
+                    entry('07e5030707100f00ffffc400', 240),
+                    entry('07e50306060a0400ff800000', 301),
+                  ],
+                },
+              ],
+            },
+          ],
+        },
+      });
+
+      const calls = parseDlmsTelegram(telegram);
+      const result = calls[0].arguments[1] as HdlcParserResult;
+
+      assert.equal(calls.length, 1);
+      assert.equal(calls[0].arguments[0], null);
+      assert.deepStrictEqual(result.metadata.events?.powerFailureLog, [
+        { end: new Date('2021-03-07T15:15:00.000Z'), durationSeconds: 240 },
+        { end: new Date('2021-03-06T10:04:00.000Z'), durationSeconds: 301 },
+      ]);
+    });
+  });
+
+  describe('Power quality', () => {
+    const obis = (code: number[]): ParsedDlmsData => ({
+      type: 'octet_string',
+      value: Buffer.from([...code, 255]),
+    });
+    const scalerUnit = (scaler: number, unit: number): ParsedDlmsData => ({
+      type: 'structure',
+      value: [
+        { type: 'int8', value: scaler },
+        { type: 'enum', value: unit },
+      ],
+    });
+
+    it('Applies the scaler of registers', () => {
+      const telegram = buildDlmsTelegram({
+        data: {
+          type: 'array',
+          value: [
+            {
+              type: 'structure',
+              value: [obis([1, 0, 14, 7, 0]), { type: 'uint16', value: 50 }],
+            },
+            {
+              type: 'structure',
+              value: [obis([1, 0, 13, 7, 0]), { type: 'int16', value: 987 }, scalerUnit(-3, 255)],
+            },
+            {
+              type: 'structure',
+              value: [obis([1, 0, 9, 7, 0]), { type: 'uint32', value: 12 }, scalerUnit(2, 28)],
+            },
+            {
+              type: 'structure',
+              value: [obis([1, 0, 81, 7, 4]), { type: 'int16', value: -123 }, scalerUnit(-1, 8)],
+            },
+          ],
+        },
+      });
+
+      const calls = parseDlmsTelegram(telegram);
+      const result = calls[0].arguments[1] as HdlcParserResult;
+
+      assert.equal(calls.length, 1);
+      assert.equal(calls[0].arguments[0], null);
+      assert.equal(result.dlms.payloadType, 'BasicStructure');
+      assert.deepStrictEqual(result.powerQuality, {
+        frequency: 50,
+        powerFactor: { total: 0.987 },
+        apparentPowerReceivedTotal: 1200,
+        phaseAngles: { 4: -12.3 },
+      });
+      assert.equal(result.cosem.objects['1-0:14.7.0'].scaler, null);
+      assert.equal(result.cosem.objects['1-0:81.7.4'].unit, '°');
+    });
+
+    it('Applies the default scalers of a basic list', () => {
+      const telegram = buildDlmsTelegram({
+        data: {
+          type: 'structure',
+          value: [
+            { type: 'string', value: 'AUX1030100' },
+            obis([1, 0, 14, 7, 0]),
+            { type: 'uint16', value: 4998 },
+            obis([1, 0, 13, 7, 0]),
+            { type: 'uint16', value: 987 },
+            obis([1, 0, 33, 7, 0]),
+            { type: 'int16', value: -12 },
+            obis([1, 0, 9, 7, 0]),
+            { type: 'uint32', value: 1200 },
+          ],
+        },
+      });
+
+      const calls = parseDlmsTelegram(telegram);
+      const result = calls[0].arguments[1] as HdlcParserResult;
+
+      assert.equal(calls.length, 1);
+      assert.equal(calls[0].arguments[0], null);
+      assert.equal(result.dlms.payloadType, 'BasicList');
+      assert.deepStrictEqual(result.powerQuality, {
+        frequency: 49.98,
+        powerFactor: { total: 0.987, l1: -0.012 },
+        apparentPowerReceivedTotal: 1200,
+      });
+      assert.deepStrictEqual(result.cosem.objects['1-0:14.7.0'], {
+        value: 49.98,
+        unit: null,
+        scaler: -2,
+        rawType: 'uint16',
+        source: 'dlms',
+      });
+    });
+
+    it('Applies the captured scaler of a described list', () => {
+      const descriptor = (code: number[], attribute: number): ParsedDlmsData => ({
+        type: 'structure',
+        value: [
+          { type: 'uint16', value: 3 },
+          obis(code),
+          { type: 'int8', value: attribute },
+          { type: 'uint16', value: 0 },
+        ],
+      });
+
+      const telegram = buildDlmsTelegram({
+        data: {
+          type: 'structure',
+          value: [
+            {
+              type: 'array',
+              value: [
+                descriptor([0, 6, 25, 9, 0], 2),
+                descriptor([1, 0, 14, 7, 0], 2),
+                descriptor([1, 0, 14, 7, 0], 3),
+              ],
+            },
+            { type: 'uint16', value: 4998 },
+            scalerUnit(-2, 44),
+          ],
+        },
+      });
+
+      const calls = parseDlmsTelegram(telegram);
+      const result = calls[0].arguments[1] as HdlcParserResult;
+
+      assert.equal(calls.length, 1);
+      assert.equal(calls[0].arguments[0], null);
+      assert.equal(result.dlms.payloadType, 'DescribedList');
+      assert.equal(result.powerQuality?.frequency, 49.98);
+      assert.deepStrictEqual(result.cosem.objects['1-0:14.7.0'], {
+        value: 49.98,
+        unit: 'Hz',
+        scaler: -2,
+        rawType: 'uint16',
+        source: 'dlms',
+      });
+    });
+  });
+
+  describe('M-Bus', () => {
+    it('Adds the readings of m-bus channels', () => {
+      const telegram = buildDlmsTelegram({
+        data: {
+          type: 'array',
+          value: [1, 3].map(
+            (channel): ParsedDlmsData => ({
+              type: 'structure',
+              value: [
+                { type: 'octet_string', value: Buffer.from([0, 1, 24, 2, channel, 255]) },
+                { type: 'uint32', value: 112384 + channel },
+                {
+                  type: 'structure',
+                  value: [
+                    { type: 'int8', value: -3 },
+                    { type: 'enum', value: 14 },
+                  ],
+                },
+              ],
+            }),
+          ),
+        },
+      });
+
+      const calls = parseDlmsTelegram(telegram);
+      const result = calls[0].arguments[1] as HdlcParserResult;
+
+      assert.equal(calls.length, 1);
+      assert.equal(calls[0].arguments[0], null);
+      assert.deepStrictEqual(result.mBus[1], {
+        value: 112.385,
+        unit: 'm3',
+        channels: {
+          1: { value: 112.385, unit: 'm3' },
+          3: { value: 112.387, unit: 'm3' },
+        },
+      });
+    });
+  });
+
+  describe('Data types', () => {
+    const testCases: { name: string; input: string; output: ParsedDlmsData }[] = [
+      { name: 'null', input: '00', output: { type: 'null', value: null } },
+      { name: 'int64', input: '14fffffffffffffffe', output: { type: 'int64', value: -2n } },
+      { name: 'uint64', input: '150000000000000100', output: { type: 'uint64', value: 256n } },
+      { name: 'float32', input: '1741200000', output: { type: 'float32', value: 10 } },
+      { name: 'float64', input: '184024000000000000', output: { type: 'float64', value: 10 } },
+      {
+        name: 'bit_string',
+        input: '040ac040',
+        output: { type: 'bit_string', value: '1100000001' },
+      },
+      { name: 'bcd', input: '0d42', output: { type: 'bcd', value: 42 } },
+      { name: 'utf8_string', input: '0c03e282ac', output: { type: 'utf8_string', value: '€' } },
+      {
+        name: 'date',
+        input: '1a07e5030707',
+        output: { type: 'date', value: Buffer.from('07e5030707', 'hex') },
+      },
+      {
+        name: 'time',
+        input: '1b0c1e0000',
+        output: { type: 'time', value: Buffer.from('0c1e0000', 'hex') },
+      },
+      {
+        name: 'date_time',
+        input: '1907e50307070c1e0000ff8880',
+        output: { type: 'date_time', value: Buffer.from('07e50307070c1e0000ff8880', 'hex') },
+      },
+      {
+        name: 'compact_array',
+        input: '13120400010002',
+        output: {
+          type: 'compact_array',
+          value: [
+            { type: 'uint16', value: 1 },
+            { type: 'uint16', value: 2 },
+          ],
+        },
+      },
+      {
+        name: 'compact_array with structures',
+        input: '130202121106000105000206',
+        output: {
+          type: 'compact_array',
+          value: [
+            {
+              type: 'structure',
+              value: [
+                { type: 'uint16', value: 1 },
+                { type: 'uint8', value: 5 },
+              ],
+            },
+            {
+              type: 'structure',
+              value: [
+                { type: 'uint16', value: 2 },
+                { type: 'uint8', value: 6 },
+              ],
+            },
+          ],
+        },
+      },
+    ];
+
+    for (const { name, input, output } of testCases) {
+      it(`Parses and encodes ${name}`, () => {
+        const buffer = Buffer.from(input, 'hex');
+        const { index, ...parsed } = DlmsDataTypes.parse(buffer, 0);
+
+        assert.deepStrictEqual(parsed, output);
+        assert.equal(index, buffer.length);
+        assert.deepStrictEqual(DlmsDataTypes.encode(output), buffer);
+      });
+    }
+
+    it('Keeps 64-bit registers as bigint', () => {
+      const register = (obisCode: number[], value: bigint): ParsedDlmsData => ({
+        type: 'structure',
+        value: [
+          { type: 'octet_string', value: Buffer.from([...obisCode, 255]) },
+          { type: 'uint64', value },
+          {
+            type: 'structure',
+            value: [
+              { type: 'int8', value: 1 },
+              { type: 'enum', value: 30 },
+            ],
+          },
+        ],
+      });
+      const telegram = buildDlmsTelegram({
+        data: {
+          type: 'array',
+          value: [register([1, 0, 1, 8, 0], 123456n), register([1, 0, 2, 8, 0], 2n ** 53n + 1n)],
+        },
+      });
+
+      const calls = parseDlmsTelegram(telegram);
+      const result = calls[0].arguments[1] as HdlcParserResult;
+
+      assert.equal(calls[0].arguments[0], null);
+      assert.equal(result.electricity.total?.received, 1234560);
+      assert.equal(result.electricity.total?.returned, undefined);
+      assert.deepStrictEqual(result.cosem.objects['1-0:1.8.0'].value, 123456n);
+      assert.deepStrictEqual(result.cosem.objects['1-0:2.8.0'].value, 2n ** 53n + 1n);
+      assert.equal(result.cosem.objects['1-0:2.8.0'].scaler, 1);
+      assert.deepStrictEqual(result.cosem.unknownObjects, ['1-0:2.8.0(9007199254740993*Wh)']);
+    });
+  });
+
+  describe('COSEM date-time', () => {
+    it('Decodes a date-time with deviation and daylight saving', () => {
+      const dateTime = decodeCosemDateTime(Buffer.from('07e5091b01092f0f00ff8880', 'hex'));
+
+      assert.deepStrictEqual(dateTime, {
+        date: new Date('2021-09-27T07:47:15.000Z'),
+        year: 2021,
+        month: 9,
+        dayOfMonth: 27,
+        dayOfWeek: 1,
+        hour: 9,
+        minute: 47,
+        second: 15,
+        hundredths: 0,
+        deviation: -120,
+        clockStatus: {
+          invalidValue: false,
+          doubtfulValue: false,
+          differentClockBase: false,
+          invalidClockStatus: false,
+          daylightSavingActive: true,
+        },
+      });
+    });
+
+    it('Interprets the time as UTC when the deviation is not specified', () => {
+      const dateTime = decodeCosemDateTime(Buffer.from('07e30c1001073b28ff8000ff', 'hex'));
+
+      assert.deepStrictEqual(dateTime?.date, new Date('2019-12-16T07:59:40.000Z'));
+      assert.equal(dateTime?.deviation, null);
+      assert.equal(dateTime?.clockStatus, null);
+    });
+
+    it('Has no date when fields are not specified', () => {
+      const dateTime = decodeCosemDateTime(Buffer.from('ffffffffff0c1e00ff8000ff', 'hex'));
+
+      assert.equal(dateTime?.date, null);
+      assert.equal(dateTime?.year, null);
+      assert.equal(dateTime?.hour, 12);
+      assert.equal(dateTime?.minute, 30);
+    });
+
+    it('Returns null for invalid lengths', () => {
+      assert.equal(decodeCosemDateTime(Buffer.from('07e5091b', 'hex')), null);
+    });
+  });
+});
@@ -1,6 +1,12 @@
 import { describe, it } from 'node:test';
 import assert from 'node:assert';
-import { DSMR } from '../../src/index.js';
+import {
+  buildDsmrTelegram,
+  CosemLibrary,
+  createCosemLibrary,
+  DSMR,
+  SmartMeterCrcError,
+} from '../../src/index.js';
 import {
   encryptFrame,
   getAllDSMRTestTelegramTestCases,
@@ -86,6 +92,54 @@ describe('DSMR', async () => {
     assert.equal(mbusData?.unit, 'm3');
   });
 
+  it('Keeps the readings of all m-bus channels', () => {
+    // The corrected volume is sent first, but channel 1 is the primary reading.
+    const telegram = buildDsmrTelegram({
+      header: 'TST5\\Simulator',
+      objects: [
+        { obisCode: '0-1:24.1.0', values: ['003'] },
+        { obisCode: '0-1:24.2.3', values: ['200512134558S', '00108.100*m3'] },
+        { obisCode: '0-1:24.2.1', values: ['200512134558S', '00112.384*m3'] },
+      ],
+    });
+
+    const parsed = parseDsmr({ telegram });
+    const reading = (value: number) => ({
+      timestamp: new Date('2020-05-12T11:45:58.000Z'),
+      timestampRaw: '200512134558S',
+      timestampDst: true,
+      value,
+      unit: 'm3',
+    });
+
+    assert.equal(parsed.mBus[1].value, 112.384);
+    assert.deepStrictEqual(parsed.mBus[1].channels, { 1: reading(112.384), 3: reading(108.1) });
+
+    // All channels are serialized again.
+    const reparsed = parseDsmr({
+      telegram: buildDsmrTelegram({ header: 'TST5\\Simulator', result: parsed }),
+    });
+    assert.deepStrictEqual(reparsed.mBus, parsed.mBus);
+  });
+
+  it('Replaces the reading of another m-bus channel with the reading of channel 1', () => {
+    const telegram = buildDsmrTelegram({
+      header: 'TST5\\Simulator',
+      objects: [
+        { obisCode: '0-1:24.2.3', values: ['200512134558S', '00108.100*m3'] },
+        { obisCode: '0-1:24.2.1', values: ['200512134558', '00112.384*GJ'] },
+      ],
+    });
+
+    const parsed = parseDsmr({ telegram });
+
+    assert.deepStrictEqual(parsed.mBus[1].value, 112.384);
+    assert.deepStrictEqual(parsed.mBus[1].unit, 'GJ');
+    assert.deepStrictEqual(parsed.mBus[1].timestampRaw, '200512134558');
+    assert.deepStrictEqual(parsed.mBus[1].timestampDst, undefined);
+    assert.deepStrictEqual(parsed.mBus[1].channels?.[3]?.timestampDst, true);
+  });
+
   it('Throws error on invalid telegram', () => {
     const input = "Hello, world! I'm not a valid telegram.";
 
@@ -112,5 +166,297 @@ describe('DSMR', async () => {
       });
       assert.equal(isValid, false);
     });
+
+    const telegram = buildDsmrTelegram({
+      header: 'TST5\\Simulator',
+      objects: [
+        { obisCode: '1-0:1.8.1', values: ['000123.456*kWh'] },
+        { obisCode: '1-0:1.8.2', values: ['000654.321*kWh'] },
+        { obisCode: '1-0:2.8.1', values: ['000001.000*kWh'] },
+      ],
+    });
+    // Corrupt the value of tariff 2 and the OBIS code of the delivered tariff 1.
+    const corrupted = telegram
+      .replace('000654.321', '00#654.321')
+      .replace('1-0:2.8.1', '1-0#2.8.1');
+
+    it('Adds diagnostics for an invalid CRC (lenient)', () => {
+      const parsed = parseDsmr({ telegram: corrupted });
+
+      assert.equal(parsed.crcValid, false);
+      assert.deepStrictEqual(
+        parsed.diagnostics.map(({ type, line }) => ({ type, line })),
+        [
+          { type: 'crc', line: 5 },
+          { type: 'format', line: 3 },
+          { type: 'format', line: 4 },
+        ],
+      );
+      assert.ok(parsed.cosem.unknownObjects.includes('1-0:1.8.2(00#654.321*kWh)'));
+      assert.deepStrictEqual(parsed.dsmr.unknownLines, ['1-0#2.8.1(000001.000*kWh)']);
+    });
+
+    it('Rejects an invalid CRC (strict)', () => {
+      assert.throws(
+        () => parseDsmr({ telegram: corrupted, crcPolicy: 'strict' }),
+        (error) => error instanceof SmartMeterCrcError && error.diagnostics[0].type === 'crc',
+      );
+
+      assert.equal(parseDsmr({ telegram, crcPolicy: 'strict' }).crcValid, true);
+    });
+
+    it('Drops lines that fail format validation (repair)', () => {
+      const parsed = parseDsmr({ telegram: corrupted, crcPolicy: 'repair' });
+
+      assert.equal(parsed.crcValid, false);
+      assert.deepStrictEqual(
+        parsed.diagnostics.filter((diagnostic) => diagnostic.dropped).map(({ line }) => line),
+        [3, 4],
+      );
+      assert.deepStrictEqual(parsed.cosem.unknownObjects, []);
+      assert.equal(parsed.dsmr.unknownLines, undefined);
+      assert.deepStrictEqual(Object.keys(parsed.cosem.objects), ['1-0:1.8.1']);
+      assert.equal(parsed.electricity.tariffs?.[1]?.received, 123456);
+    });
+  });
+
+  describe('Build telegram', () => {
+    it('Builds a telegram with a valid CRC', () => {
+      const telegram = buildDsmrTelegram({
+        header: 'TST5\\Simulator',
+        objects: [
+          { obisCode: '1-3:0.2.8', values: ['50'] },
+          { obisCode: '1-0:1.8.1', values: ['000123.456*kWh'] },
+          { obisCode: '0-1:24.2.1', values: ['101209112500W', '12785.123*m3'] },
+        ],
+      });
+
+      assert.equal(
+        telegram,
+        '/TST5\\Simulator\r\n\r\n' +
+          '1-3:0.2.8(50)\r\n' +
+          '1-0:1.8.1(000123.456*kWh)\r\n' +
+          '0-1:24.2.1(101209112500W)(12785.123*m3)\r\n' +
+          `!${telegram.slice(-6, -2)}\r\n`,
+      );
+
+      const parsed = parseDsmr({ telegram });
+
+      assert.equal(parsed.crcValid, true);
+      assert.deepStrictEqual(parsed.dsmr.header, {
+        xxx: 'TST',
+        z: '5',
+        identifier: '\\Simulator',
+      });
+      assert.equal(parsed.metadata.dsmrVersion, 5);
+      assert.equal(parsed.electricity.tariffs?.[1]?.received, 123456);
+      assert.equal(parsed.mBus[1].value, 12785.123);
+    });
+
+    it('Builds a telegram without a CRC', () => {
+      const telegram = buildDsmrTelegram({
+        header: 'TST5\\Simulator',
+        objects: [{ obisCode: '1-0:1.8.1', values: ['000123.456*kWh'] }],
+        crc: false,
+      });
+
+      assert.ok(telegram.endsWith('\r\n!\r\n'));
+
+      const parsed = parseDsmr({ telegram });
+
+      assert.equal(parsed.dsmr.crc, undefined);
+      assert.equal(parsed.electricity.tariffs?.[1]?.received, 123456);
+    });
+
+    it('Builds a telegram from a parse result', async () => {
+      const { input } = await readDsmrTelegramFromFiles(
+        './tests/telegrams/dsmr/dsmr-5.0-spec-example',
+      );
+
+      const parsed = parseDsmr({ telegram: input });
+      const telegram = buildDsmrTelegram({ header: parsed.dsmr.header, result: parsed });
+      const reparsed = parseDsmr({ telegram });
+
+      assert.equal(reparsed.crcValid, true);
+      assert.deepStrictEqual(reparsed.dsmr.header, parsed.dsmr.header);
+      assert.deepStrictEqual(reparsed.metadata, parsed.metadata);
+      assert.deepStrictEqual(reparsed.electricity, parsed.electricity);
+      assert.deepStrictEqual(reparsed.mBus, parsed.mBus);
+    });
+
+    it('Uses the DST flag of a result without raw timestamps', () => {
+      const telegram = buildDsmrTelegram({
+        header: 'TST5\\Simulator',
+        timezone: false,
+        result: {
+          cosem: { knownObjects: [], unknownObjects: [], objects: {} },
+          metadata: { timestamp: new Date('2020-05-12T13:45:58Z'), timestampDst: true },
+          electricity: {},
+          mBus: {
+            1: { value: 112.384, unit: 'm3', timestamp: new Date('2020-01-12T13:45:58Z') },
+          },
+          diagnostics: [],
+        },
+      });
+
+      assert.ok(telegram.includes('0-0:1.0.0(200512134558S)\r\n'));
+      assert.ok(telegram.includes('0-1:24.2.1(200112134558W)(00112.384*m3)\r\n'));
+    });
+
+    it('Formats timestamps without raw timestamps in the timezone', () => {
+      const telegram = buildDsmrTelegram({
+        header: 'TST5\\Simulator',
+        result: {
+          cosem: { knownObjects: [], unknownObjects: [], objects: {} },
+          metadata: { timestamp: new Date('2020-05-12T13:45:58Z') },
+          electricity: {},
+          mBus: {
+            1: { value: 112.384, unit: 'm3', timestamp: new Date('2020-01-12T13:45:58Z') },
+          },
+          diagnostics: [],
+        },
+      });
+
+      assert.ok(telegram.includes('0-0:1.0.0(200512154558S)\r\n'));
+      assert.ok(telegram.includes('0-1:24.2.1(200112144558W)(00112.384*m3)\r\n'));
+    });
+  });
+
+  describe('Timezone', () => {
+    const parseTimestamp = (timestamp: string, timezone?: string | boolean) => {
+      const telegram = buildDsmrTelegram({
+        header: 'TST5\\Simulator',
+        objects: [
+          { obisCode: '0-0:1.0.0', values: [timestamp] },
+          { obisCode: '0-1:24.2.1', values: [timestamp, '00012.345*m3'] },
+        ],
+      });
+
+      return parseDsmr({ telegram, timezone });
+    };
+
+    it('Parses timestamps as UTC when the timezone is disabled', () => {
+      const parsed = parseTimestamp('240101120000W', false);
+
+      assert.deepStrictEqual(parsed.metadata.timestamp, new Date('2024-01-01T12:00:00.000Z'));
+      assert.equal(parsed.metadata.timestampRaw, '240101120000W');
+      assert.equal(parsed.metadata.timestampDst, false);
+    });
+
+    it('Parses winter and summer time in Europe/Amsterdam by default', () => {
+      const winter = parseTimestamp('240101120000W');
+      const summer = parseTimestamp('240701120000S');
+
+      assert.deepStrictEqual(winter.metadata.timestamp, new Date('2024-01-01T11:00:00.000Z'));
+      assert.deepStrictEqual(summer.metadata.timestamp, new Date('2024-07-01T10:00:00.000Z'));
+      assert.equal(summer.metadata.timestampDst, true);
+      assert.deepStrictEqual(summer.mBus[1].timestamp, new Date('2024-07-01T10:00:00.000Z'));
+      assert.equal(summer.mBus[1].timestampRaw, '240701120000S');
+      assert.equal(summer.mBus[1].timestampDst, true);
+    });
+
+    it('Resolves the ambiguous hour when daylight saving time ends', () => {
+      const summer = parseTimestamp('241027023000S', 'Europe/Amsterdam');
+      const winter = parseTimestamp('241027023000W', 'Europe/Amsterdam');
+
+      assert.deepStrictEqual(summer.metadata.timestamp, new Date('2024-10-27T00:30:00.000Z'));
+      assert.deepStrictEqual(winter.metadata.timestamp, new Date('2024-10-27T01:30:00.000Z'));
+    });
+
+    it('Shifts non-existing times when daylight saving time starts', () => {
+      const parsed = parseTimestamp('240331023000S', 'Europe/Amsterdam');
+
+      assert.deepStrictEqual(parsed.metadata.timestamp, new Date('2024-03-31T01:30:00.000Z'));
+    });
+
+    it('Uses the configured timezone', () => {
+      const parsed = parseTimestamp('240101120000W', 'Europe/London');
+
+      assert.deepStrictEqual(parsed.metadata.timestamp, new Date('2024-01-01T12:00:00.000Z'));
+    });
+
+    it('Throws on an invalid timezone', () => {
+      assert.throws(() => parseTimestamp('240101120000W', 'Invalid/Timezone'));
+    });
+  });
+
+  describe('COSEM library', () => {
+    const telegram = buildDsmrTelegram({
+      header: 'TST5\\Simulator',
+      objects: [
+        { obisCode: '1-0:1.8.1', values: ['000123.456*kWh'] },
+        { obisCode: '1-0:99.1.0', values: ['42'] },
+      ],
+    });
+
+    it('Uses a custom library', () => {
+      const cosemLibrary = createCosemLibrary().addNumberParser(
+        '1-0:99.1.0',
+        ({ valueNumber, result }) => {
+          result.metadata.numericMessage = valueNumber;
+        },
+      );
+
+      const parsed = parseDsmr({ telegram, cosemLibrary });
+
+      assert.equal(parsed.metadata.numericMessage, 42);
+      assert.equal(parsed.electricity.tariffs, undefined);
+      assert.deepStrictEqual(parsed.cosem.unknownObjects, ['1-0:1.8.1(000123.456*kWh)']);
+    });
+
+    it('Extends the default library', () => {
+      const cosemLibrary = CosemLibrary.extend().addNumberParser(
+        '1-0:1.8.1',
+        ({ valueNumber, result }) => {
+          result.metadata.numericMessage = valueNumber;
+        },
+      );
+
+      const parsed = parseDsmr({ telegram, cosemLibrary });
+
+      assert.equal(parsed.metadata.numericMessage, 123.456);
+      assert.equal(parsed.electricity.tariffs, undefined);
+
+      // The default library is not changed
+      const parsedDefault = parseDsmr({ telegram });
+
+      assert.equal(parsedDefault.metadata.numericMessage, undefined);
+      assert.equal(parsedDefault.electricity.tariffs?.[1]?.received, 123456);
+    });
+  });
+
+  describe('COSEM objects', () => {
+    const telegram = buildDsmrTelegram({
+      header: 'TST5\\Simulator',
+      objects: [
+        { obisCode: '1-0:1.8.1', values: ['000123.456*kWh'] },
+        { obisCode: '1-0:99.1.0', values: ['0042*V'] },
+        { obisCode: '1-0:99.2.0', values: ['ABC'] },
+        { obisCode: '1-0:99.3.0', values: ['1', '2'] },
+      ],
+    });
+
+    it('Adds known and unknown objects', () => {
+      const parsed = parseDsmr({ telegram });
+
+      assert.deepStrictEqual(parsed.cosem.objects, {
+        '1-0:1.8.1': {
+          value: 123.456,
+          unit: 'kWh',
+          scaler: null,
+          rawType: 'number',
+          source: 'dsmr',
+        },
+        '1-0:99.1.0': { value: 42, unit: 'V', scaler: null, rawType: 'number', source: 'dsmr' },
+        '1-0:99.2.0': {
+          value: 'ABC',
+          unit: null,
+          scaler: null,
+          rawType: 'string',
+          source: 'dsmr',
+        },
+        '1-0:99.3.0': { value: '(1)(2)', unit: null, scaler: null, rawType: 'raw', source: 'dsmr' },
+      });
+    });
   });
 });
@@ -6,8 +6,15 @@ import {
   TEST_AAD,
   TEST_DECRYPTION_KEY,
 } from './../test-utils.js';
-import { decryptDlmsFrame } from '../../src/protocols/encryption.js';
-import { SmartMeterDecryptionError } from '../../src/index.js';
+import {
+  decryptDlmsFrame,
+  encryptDlmsFrame,
+  ENCRYPTED_DLMS_AUTHENTICATION_TAG,
+  ENCRYPTED_DLMS_DED_TELEGRAM_SOF,
+  ENCRYPTED_DLMS_HEADER_LEN,
+  indexOfEncryptedDlmsSof,
+} from '../../src/protocols/encryption.js';
+import { SmartMeterAuthenticationError, SmartMeterDecryptionError } from '../../src/index.js';
 import { parseDsmr } from '../../src/protocols/dsmr.js';
 
 describe('Encryption', async () => {
@@ -52,7 +59,7 @@ describe('Encryption', async () => {
     });
 
     assert.deepStrictEqual(decrypted.content.toString(), input);
-    assert.equal(decrypted.error?.constructor, SmartMeterDecryptionError);
+    assert.equal(decrypted.error?.constructor, SmartMeterAuthenticationError);
   });
 
   it('Returns error on invalid key', () => {
@@ -62,7 +69,7 @@ describe('Encryption', async () => {
       additionalAuthenticatedData: TEST_AAD,
     });
 
-    assert.equal(error?.constructor, SmartMeterDecryptionError);
+    assert.equal(error?.constructor, SmartMeterAuthenticationError);
   });
 
   it('Returns error on invalid AAD', () => {
@@ -72,7 +79,7 @@ describe('Encryption', async () => {
       additionalAuthenticatedData: Buffer.from('invalid-aad12345', 'ascii'),
     });
 
-    assert.equal(error?.constructor, SmartMeterDecryptionError);
+    assert.equal(error?.constructor, SmartMeterAuthenticationError);
 
     const parsed = parseDsmr({ telegram: content });
 
@@ -86,6 +93,149 @@ describe('Encryption', async () => {
       additionalAuthenticatedData: Buffer.from('invalid-aad12345', 'ascii'),
     });
 
-    assert.equal(error?.constructor, SmartMeterDecryptionError);
+    assert.equal(error?.constructor, SmartMeterAuthenticationError);
+  });
+
+  describe('Authentication key', () => {
+    it('Uses the authentication key to verify the GCM tag', () => {
+      const decrypted = decryptDlmsFrame({
+        data: encryptedWithAad,
+        key: TEST_DECRYPTION_KEY,
+        authenticationKey: TEST_AAD,
+      });
+
+      assert.deepStrictEqual(decrypted.content.toString(), input);
+      assert.equal(decrypted.error, undefined);
+      assert.equal(decrypted.encryption.authenticated, true);
+    });
+
+    it('Reports a failed authentication separately from the decryption', () => {
+      const decrypted = decryptDlmsFrame({
+        data: encryptedWithAad,
+        key: TEST_DECRYPTION_KEY,
+        authenticationKey: Buffer.from('invalid-key12345', 'ascii'),
+      });
+
+      // The contents are decrypted, but can't be trusted.
+      assert.deepStrictEqual(decrypted.content.toString(), input);
+      assert.ok(decrypted.error instanceof SmartMeterDecryptionError);
+      assert.equal(decrypted.error.constructor, SmartMeterAuthenticationError);
+      assert.equal(decrypted.encryption.authenticated, false);
+    });
+
+    it('Prefers the authentication key over the AAD', () => {
+      const { error } = decryptDlmsFrame({
+        data: encryptedWithAad,
+        key: TEST_DECRYPTION_KEY,
+        authenticationKey: TEST_AAD,
+        additionalAuthenticatedData: Buffer.from('invalid-aad12345', 'ascii'),
+      });
+
+      assert.equal(error, undefined);
+    });
+
+    it('Builds the AAD from the security type and the authentication key', () => {
+      const encrypted = encryptDlmsFrame({
+        data: Buffer.from(input),
+        key: TEST_DECRYPTION_KEY,
+        authenticationKey: TEST_AAD,
+        systemTitle: Buffer.from('systitle', 'ascii'),
+        frameCounter: 1,
+      });
+
+      const { error } = decryptDlmsFrame({
+        data: encrypted,
+        key: TEST_DECRYPTION_KEY,
+        additionalAuthenticatedData: Buffer.concat([Buffer.from([0x30]), TEST_AAD]),
+      });
+
+      assert.equal(error, undefined);
+    });
+  });
+
+  describe('Authentication only', () => {
+    const authenticated = encryptDlmsFrame({
+      data: Buffer.from(input),
+      key: TEST_DECRYPTION_KEY,
+      additionalAuthenticatedData: TEST_AAD,
+      systemTitle: Buffer.from('systitle', 'ascii'),
+      frameCounter: 1,
+      securityType: ENCRYPTED_DLMS_AUTHENTICATION_TAG,
+    });
+
+    it('Verifies the GMAC tag', () => {
+      const { header, content, error } = decryptDlmsFrame({
+        data: authenticated,
+        key: TEST_DECRYPTION_KEY,
+        additionalAuthenticatedData: TEST_AAD,
+      });
+
+      assert.equal(header.securityType, ENCRYPTED_DLMS_AUTHENTICATION_TAG);
+      assert.equal(header.gcmTagLength, 12);
+      assert.deepStrictEqual(content.toString(), input);
+      assert.equal(error, undefined);
+    });
+
+    it('Returns error on an invalid authentication key', () => {
+      const { content, error } = decryptDlmsFrame({
+        data: authenticated,
+        key: TEST_DECRYPTION_KEY,
+        additionalAuthenticatedData: Buffer.from('invalid-aad12345', 'ascii'),
+      });
+
+      assert.deepStrictEqual(content.toString(), input);
+      assert.equal(error?.constructor, SmartMeterAuthenticationError);
+    });
+
+    it('Returns error on a modified frame', () => {
+      const modified = Buffer.from(authenticated);
+      modified[ENCRYPTED_DLMS_HEADER_LEN] ^= 0x01;
+
+      const { error } = decryptDlmsFrame({
+        data: modified,
+        key: TEST_DECRYPTION_KEY,
+        additionalAuthenticatedData: TEST_AAD,
+      });
+
+      assert.equal(error?.constructor, SmartMeterAuthenticationError);
+    });
+  });
+
+  it('Can decrypt a general-ded-ciphering message', () => {
+    const encrypted = encryptDlmsFrame({
+      data: Buffer.from(input),
+      key: TEST_DECRYPTION_KEY,
+      additionalAuthenticatedData: TEST_AAD,
+      systemTitle: Buffer.from('systitle', 'ascii'),
+      frameCounter: 1,
+      sof: ENCRYPTED_DLMS_DED_TELEGRAM_SOF,
+    });
+
+    const { header, content, error } = decryptDlmsFrame({
+      data: encrypted,
+      key: TEST_DECRYPTION_KEY,
+      additionalAuthenticatedData: TEST_AAD,
+    });
+
+    assert.equal(header.sof, ENCRYPTED_DLMS_DED_TELEGRAM_SOF);
+    assert.deepStrictEqual(content.toString(), input);
+    assert.equal(error, undefined);
+  });
+
+  it('Does not treat general-signing (0xDF) as an encrypted frame', () => {
+    const encrypted = encryptDlmsFrame({
+      data: Buffer.from(input),
+      key: TEST_DECRYPTION_KEY,
+      additionalAuthenticatedData: TEST_AAD,
+      systemTitle: Buffer.from('systitle', 'ascii'),
+      frameCounter: 1,
+    });
+    encrypted[0] = 0xdf;
+
+    assert.equal(indexOfEncryptedDlmsSof(encrypted.subarray(0, ENCRYPTED_DLMS_HEADER_LEN)), -1);
+    assert.throws(
+      () => decryptDlmsFrame({ data: encrypted, key: TEST_DECRYPTION_KEY }),
+      /Invalid telegram sof 0xdf/,
+    );
   });
 });
@@ -0,0 +1,144 @@
+import assert from 'node:assert';
+import { PassThrough } from 'node:stream';
+import { describe, it } from 'node:test';
+import { readDlmsTelegramFromFiles, readDsmrTelegramFromFiles } from './../test-utils.js';
+import {
+  nextTelegram,
+  parseSmartMeterStream,
+  SmartMeterError,
+  SmartMeterStreamEndedError,
+  StartOfFrameNotFoundError,
+} from '../../src/index.js';
+
+describe('Stream: Async iterator', () => {
+  const readDsmrExample = async () => {
+    const { input, output } = await readDsmrTelegramFromFiles(
+      './tests/telegrams/dsmr/dsmr-5.0-spec-example',
+    );
+
+    return { input: Buffer.from(input), output };
+  };
+
+  it('Iterates over the telegrams of a stream', async () => {
+    const { input, output } = await readDsmrExample();
+    const stream = new PassThrough();
+
+    stream.write(input);
+    stream.write(input);
+    stream.end();
+
+    const telegrams = [];
+
+    for await (const telegram of parseSmartMeterStream(stream, { mode: 'dsmr' })) {
+      telegrams.push(telegram);
+    }
+
+    assert.equal(telegrams.length, 2);
+
+    for (const { result, raw } of telegrams) {
+      assert.deepStrictEqual(JSON.parse(JSON.stringify(result)), output);
+      assert.deepStrictEqual(raw, input);
+    }
+  });
+
+  it('Detects the protocol when no mode is given', async () => {
+    const { input, output } = await readDlmsTelegramFromFiles(
+      './tests/telegrams/dlms/aidon-example-2',
+    );
+    const stream = new PassThrough();
+
+    stream.end(input);
+
+    const { result, raw } = await nextTelegram(stream);
+
+    assert.deepStrictEqual(result, output);
+    assert.deepStrictEqual(raw, input);
+  });
+
+  it('Throws parse errors and continues afterwards', async () => {
+    const { input } = await readDsmrExample();
+    const stream = new PassThrough();
+    const telegrams = parseSmartMeterStream(stream, { mode: 'dsmr' });
+
+    stream.write(Buffer.from('invalid'));
+    stream.end(input);
+
+    await assert.rejects(telegrams.next(), StartOfFrameNotFoundError);
+
+    const { raw } = await telegrams.nextTelegram();
+    assert.deepStrictEqual(raw, input);
+
+    assert.deepStrictEqual(await telegrams.next(), { value: undefined, done: true });
+  });
+
+  it('Skips parse errors', async () => {
+    const { input } = await readDsmrExample();
+    const stream = new PassThrough();
+    const telegrams = parseSmartMeterStream(stream, { mode: 'dsmr', skipErrors: true });
+
+    stream.write(Buffer.from('invalid'));
+    stream.end(input);
+
+    const { raw } = await telegrams.nextTelegram();
+    assert.deepStrictEqual(raw, input);
+  });
+
+  it('Rejects when the stream ends before a telegram is received', async () => {
+    const stream = new PassThrough();
+
+    stream.end();
+
+    await assert.rejects(nextTelegram(stream, { mode: 'dsmr' }), SmartMeterStreamEndedError);
+  });
+
+  it('Rejects when the stream emits an error', async () => {
+    const stream = new PassThrough();
+    const telegrams = parseSmartMeterStream(stream, { mode: 'dsmr' });
+
+    stream.destroy(new Error('Port closed'));
+
+    await assert.rejects(telegrams.next(), (error) => {
+      assert.ok(error instanceof SmartMeterError);
+      assert.equal(error.message, 'Port closed');
+      return true;
+    });
+    assert.deepStrictEqual(await telegrams.next(), { value: undefined, done: true });
+  });
+
+  it('Pauses the stream when telegrams are not consumed', async () => {
+    const { input } = await readDsmrExample();
+    const stream = new PassThrough();
+    const telegrams = parseSmartMeterStream(stream, { mode: 'dsmr', highWaterMark: 2 });
+
+    stream.write(input);
+    stream.write(input);
+    stream.end(input);
+
+    // Wait until the stream has emitted its data.
+    await new Promise((resolve) => setImmediate(resolve));
+
+    assert.equal(stream.isPaused(), true);
+
+    let count = 0;
+    for await (const _telegram of telegrams) {
+      count++;
+    }
+
+    assert.equal(count, 3);
+    assert.equal(stream.isPaused(), false);
+  });
+
+  it('Stops parsing when the iteration is stopped', async () => {
+    const { input } = await readDsmrExample();
+    const stream = new PassThrough();
+
+    stream.write(input);
+
+    for await (const _telegram of parseSmartMeterStream(stream, { mode: 'dsmr' })) {
+      break;
+    }
+
+    assert.equal(stream.listenerCount('data'), 0);
+    assert.equal(stream.listenerCount('end'), 0);
+  });
+});
@@ -0,0 +1,160 @@
+import assert from 'node:assert';
+import { PassThrough } from 'node:stream';
+import { describe, it, mock } from 'node:test';
+import {
+  encryptFrame,
+  readDlmsTelegramFromFiles,
+  readDsmrTelegramFromFiles,
+  TEST_AAD,
+  TEST_DECRYPTION_KEY,
+} from './../test-utils.js';
+import {
+  AutoSmartMeterStreamParser,
+  SmartMeterBufferOverflowError,
+  SmartMeterParserResult,
+  StartOfFrameNotFoundError,
+} from '../../src/index.js';
+
+describe('Stream: Auto detect', () => {
+  it('Detects the protocol and parses the telegrams', async () => {
+    const { input, output } = await readDlmsTelegramFromFiles(
+      './tests/telegrams/dlms/aidon-example-2',
+    );
+    const stream = new PassThrough();
+    const callback = mock.fn();
+    const onModeChange = mock.fn();
+
+    const instance = new AutoSmartMeterStreamParser({ stream, callback });
+    instance.on('mode-change', onModeChange);
+
+    stream.write(input);
+    stream.write(input);
+    stream.end();
+    instance.destroy();
+
+    assert.equal(callback.mock.calls.length, 2);
+
+    for (const call of callback.mock.calls) {
+      assert.equal(call.arguments[0], null);
+      assert.deepStrictEqual(call.arguments[1], output);
+      assert.deepStrictEqual(call.arguments[2], input);
+    }
+
+    assert.equal(onModeChange.mock.calls.length, 1);
+    assert.deepStrictEqual(onModeChange.mock.calls[0].arguments[0], {
+      mode: 'dlms',
+      encrypted: false,
+      previousMode: undefined,
+      previousEncrypted: undefined,
+    });
+    assert.deepStrictEqual(instance.mode, { mode: 'dlms', encrypted: false });
+  });
+
+  it('Switches the parser when the meter enables encryption', async (context) => {
+    context.mock.timers.enable({ apis: ['setTimeout'] });
+
+    const { input, output } = await readDsmrTelegramFromFiles(
+      './tests/telegrams/dsmr/dsmr-5.0-spec-example',
+    );
+    const encrypted = encryptFrame({ frame: input, key: TEST_DECRYPTION_KEY, aad: TEST_AAD });
+    const stream = new PassThrough();
+    const callback = mock.fn();
+    const onModeChange = mock.fn();
+
+    const instance = new AutoSmartMeterStreamParser({
+      stream,
+      callback,
+      decryptionKey: TEST_DECRYPTION_KEY,
+      additionalAuthenticatedData: TEST_AAD,
+    });
+    instance.on('mode-change', onModeChange);
+
+    stream.write(input);
+    // The unencrypted parser waits for the end of this frame until it times out, which triggers
+    // a new detection.
+    stream.write(encrypted);
+    context.mock.timers.tick(5000);
+    stream.write(encrypted);
+    stream.end();
+    instance.destroy();
+
+    const results = callback.mock.calls
+      .filter((call) => call.arguments[0] === null)
+      .map((call) => call.arguments[1] as SmartMeterParserResult);
+
+    assert.equal(results.length, 2);
+    assert.equal(results[0].additionalAuthenticatedDataValid, undefined);
+    assert.equal(results[1].additionalAuthenticatedDataValid, true);
+
+    delete results[1].additionalAuthenticatedDataValid;
+    delete results[1].encryption;
+    assert.deepStrictEqual(JSON.parse(JSON.stringify(results[1])), output);
+
+    assert.equal(onModeChange.mock.calls.length, 2);
+    assert.deepStrictEqual(onModeChange.mock.calls[1].arguments[0], {
+      mode: 'dsmr',
+      encrypted: true,
+      previousMode: 'dsmr',
+      previousEncrypted: false,
+    });
+  });
+
+  it('Uses the encrypted option instead of the detected encryption', async () => {
+    const { input } = await readDsmrTelegramFromFiles(
+      './tests/telegrams/dsmr/dsmr-5.0-spec-example',
+    );
+    const stream = new PassThrough();
+    const callback = mock.fn();
+    const onModeChange = mock.fn();
+
+    const instance = new AutoSmartMeterStreamParser({ stream, callback, encrypted: true });
+    instance.on('mode-change', onModeChange);
+
+    stream.write(input);
+    stream.end();
+    instance.destroy();
+
+    assert.deepStrictEqual(onModeChange.mock.calls[0].arguments[0], {
+      mode: 'dsmr',
+      encrypted: true,
+      previousMode: undefined,
+      previousEncrypted: undefined,
+    });
+    // The unencrypted telegram doesn't start with the start of frame of an encrypted telegram.
+    assert.ok(callback.mock.calls[0].arguments[0] instanceof StartOfFrameNotFoundError);
+  });
+
+  it('Includes the data discarded by the protocol detection in the buffer stats', async () => {
+    const { input, output } = await readDlmsTelegramFromFiles(
+      './tests/telegrams/dlms/aidon-example-2',
+    );
+    // A DSMR start of frame without a line ending keeps the detector waiting for more data.
+    const noise = Buffer.from('a/b'.repeat(700));
+    const stream = new PassThrough();
+    const callback = mock.fn();
+
+    const instance = new AutoSmartMeterStreamParser({ stream, callback, maxBufferSize: 1024 });
+
+    stream.write(noise);
+    stream.write(input);
+    stream.end();
+
+    assert.equal(callback.mock.calls.length, 2);
+    assert.ok(callback.mock.calls[0].arguments[0] instanceof SmartMeterBufferOverflowError);
+    assert.equal(callback.mock.calls[1].arguments[0], null);
+    assert.deepStrictEqual(callback.mock.calls[1].arguments[1], output);
+    assert.deepStrictEqual(instance.bufferStats(), {
+      currentSize: 0,
+      discardedBytes: noise.length,
+      overflows: 1,
+    });
+
+    instance.destroy();
+
+    assert.deepStrictEqual(instance.bufferStats(), {
+      currentSize: 0,
+      discardedBytes: noise.length,
+      overflows: 1,
+    });
+  });
+});
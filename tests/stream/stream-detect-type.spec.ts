@@ -3,6 +3,7 @@ import { PassThrough } from 'node:stream';
 import { describe, it, mock } from 'node:test';
 import { chunkBuffer, readHexFile, readDsmrTelegramFromFiles } from './../test-utils.js';
 import { SmartMeterDetectTypeStream } from '../../src/stream/stream-detect-type.js';
+import { SmartMeterBufferOverflowError } from '../../src/index.js';
 
 describe('Stream: Detect Type', () => {
   it('Detects unencrypted DSMR telegrams', async () => {
@@ -201,6 +202,58 @@ describe('Stream: Detect Type', () => {
     assert.ok(Buffer.isBuffer(arg0.data));
   });
 
+  it('Detects encrypted M-Bus telegrams', async () => {
+    const input = await readHexFile('./tests/telegrams/m-bus/austria-example-1.txt');
+    const stream = new PassThrough();
+    const callback = mock.fn();
+
+    const detector = new SmartMeterDetectTypeStream({ stream, callback });
+
+    stream.write(input);
+    stream.end();
+    detector.destroy();
+
+    assert.deepStrictEqual(callback.mock.calls.length, 1);
+    assert.deepStrictEqual(callback.mock.calls[0].arguments[0], {
+      mode: 'mbus',
+      encrypted: true,
+      data: input,
+    });
+  });
+
+  it('Detects encrypted M-Bus telegrams (chunks)', async () => {
+    const input = await readHexFile('./tests/telegrams/m-bus/austria-example-1.txt');
+    const stream = new PassThrough();
+    const callback = mock.fn();
+
+    const chunks = chunkBuffer(input, 1);
+    // The telegram consists of two M-Bus frames, stop detecting after the first one.
+    const detector = new SmartMeterDetectTypeStream({
+      stream,
+      callback: (result) => {
+        detector.destroy();
+        callback(result);
+      },
+    });
+
+    for (const chunk of chunks) {
+      stream.write(chunk);
+    }
+
+    stream.end();
+
+    assert.deepStrictEqual(callback.mock.calls.length, 1);
+
+    const arg0 = callback.mock.calls[0].arguments[0] as {
+      mode: string;
+      encrypted: boolean;
+      data: Buffer;
+    };
+    assert.equal(arg0.mode, 'mbus');
+    assert.equal(arg0.encrypted, true);
+    assert.ok(Buffer.isBuffer(arg0.data));
+  });
+
   it('Clears random data', async () => {
     const input = Buffer.from('this is not a telegram');
     const stream = new PassThrough();
@@ -217,6 +270,47 @@ describe('Stream: Detect Type', () => {
     assert.deepStrictEqual(callback.mock.calls.length, 0);
   });
 
+  it('Discards data when the buffer overflows', async () => {
+    const { input } = await readDsmrTelegramFromFiles(
+      './tests/telegrams/dsmr/dsmr-5.0-spec-example',
+    );
+    // A DSMR start of frame without a line ending keeps the detector waiting for more data.
+    const noise = Buffer.from('a/b'.repeat(700));
+    const stream = new PassThrough();
+    const callback = mock.fn();
+    const onError = mock.fn();
+
+    const detector = new SmartMeterDetectTypeStream({
+      stream,
+      callback,
+      onError,
+      maxBufferSize: 1024,
+    });
+
+    stream.write(noise);
+
+    assert.deepStrictEqual(callback.mock.calls.length, 0);
+    assert.deepStrictEqual(onError.mock.calls.length, 1);
+    assert.ok(onError.mock.calls[0].arguments[0] instanceof SmartMeterBufferOverflowError);
+    assert.deepStrictEqual(onError.mock.calls[0].arguments[0].rawTelegram, noise);
+    assert.deepStrictEqual(detector.bufferStats(), {
+      currentSize: 0,
+      discardedBytes: noise.length,
+      overflows: 1,
+    });
+
+    stream.write(input);
+    stream.end();
+    detector.destroy();
+
+    assert.deepStrictEqual(callback.mock.calls.length, 1);
+    assert.deepStrictEqual(callback.mock.calls[0].arguments[0], {
+      mode: 'dsmr',
+      encrypted: false,
+      data: Buffer.from(input),
+    });
+  });
+
   describe('Handles invalid HDLC headers', () => {
     const test = (input: Buffer, expectedCalls: number) => {
       it(input.toString('hex'), async () => {
@@ -11,12 +11,16 @@ import {
 } from '../test-utils.js';
 import { PassThrough } from 'stream';
 import {
+  CosemLibrary,
   DlmsStreamParser,
+  SmartMeterBufferOverflowError,
   SmartMeterDecryptionError,
+  SmartMeterError,
   SmartMeterTimeoutError,
   StartOfFrameNotFoundError,
 } from '../../src/index.js';
 import {
+  decodeHdlcHeader,
   HDLC_HEADER_LENGTH,
   HDLC_TELEGRAM_SOF_EOF,
   HdlcParserResult,
@@ -78,10 +82,7 @@ describe('Stream DLMS', async () => {
 
       assert.deepStrictEqual(callback.mock.calls.length, 1);
       assert.deepStrictEqual(callback.mock.calls[0].arguments[0], null);
-      assert.deepStrictEqual(
-        callback.mock.calls[0].arguments[1],
-        JSON.parse(JSON.stringify(output)),
-      );
+      assert.deepStrictEqual(callback.mock.calls[0].arguments[1], output);
       assert.deepStrictEqual(callback.mock.calls[0].arguments[2], input);
     });
 
@@ -110,10 +111,7 @@ describe('Stream DLMS', async () => {
 
       assert.deepStrictEqual(callback.mock.calls.length, 1);
       assert.deepStrictEqual(callback.mock.calls[0].arguments[0], null);
-      assert.deepStrictEqual(
-        callback.mock.calls[0].arguments[1],
-        JSON.parse(JSON.stringify(output)),
-      );
+      assert.deepStrictEqual(callback.mock.calls[0].arguments[1], output);
       assert.deepStrictEqual(callback.mock.calls[0].arguments[2], input);
     });
 
@@ -136,6 +134,75 @@ describe('Stream DLMS', async () => {
       assert.deepStrictEqual(calls[1].arguments[2], input2);
     });
 
+    it('Reports a single error for a long run of start of frame bytes', async () => {
+      const { input, output } = await readDlmsTelegramFromFiles(
+        './tests/telegrams/dlms/aidon-example-2',
+      );
+      const noise = Buffer.alloc(20000, HDLC_TELEGRAM_SOF_EOF);
+
+      const calls = testDlmsStreamParser(Buffer.concat([noise, input]));
+
+      assert.deepStrictEqual(calls.length, 2);
+      assert.ok(calls[0].arguments[0] instanceof SmartMeterError);
+      assert.deepStrictEqual(calls[0].arguments[0].message, 'Invalid format type 0x7');
+      assert.deepStrictEqual(calls[1].arguments[0], null);
+      assert.deepStrictEqual(calls[1].arguments[1], output);
+      assert.deepStrictEqual(calls[1].arguments[2], input);
+    });
+
+    it('Decodes the timestamps into dates', async () => {
+      const { input } = await readDlmsTelegramFromFiles('./tests/telegrams/dlms/described-list');
+
+      const calls = testDlmsStreamParser(input);
+      const result = calls[0].arguments[1] as HdlcParserResult;
+
+      assert.deepStrictEqual(result.dlms.timestamp, new Date('2025-05-20T07:43:45.000Z'));
+      assert.equal(result.dlms.timestampDeviation, -120);
+      assert.equal(result.dlms.timestampDst, true);
+      // The date-time of 0-0:1.0.0 is invalid, so only the raw value is kept.
+      assert.equal(result.metadata.timestamp, undefined);
+      assert.equal(result.metadata.timestampRaw, 'ffeeddccbbaa998877665544');
+    });
+
+    it('Discards the buffered frames when the buffer overflows', async () => {
+      const { input, output } = await readDlmsTelegramFromFiles(
+        './tests/telegrams/dlms/aidon-example-2-segmented',
+      );
+
+      // +2 bytes for the sof and eof
+      const firstFrame = input.subarray(0, decodeHdlcHeader(input).frameLength + 2);
+      const stream = new PassThrough();
+      const callback = mock.fn();
+
+      const instance = new DlmsStreamParser({
+        stream,
+        callback,
+        maxBufferSize: input.length,
+      });
+
+      // The final segment is never received, so the segments don't fit in the buffer.
+      const segments = Buffer.concat(
+        Array.from({ length: Math.floor(input.length / firstFrame.length) + 1 }, () => firstFrame),
+      );
+      stream.write(segments);
+      stream.write(input);
+
+      stream.end();
+      instance.destroy();
+
+      const calls = callback.mock.calls;
+      assert.deepStrictEqual(calls.length, 2);
+      assert.ok(calls[0].arguments[0] instanceof SmartMeterBufferOverflowError);
+      assert.deepStrictEqual(calls[0].arguments[0].rawTelegram, segments);
+      assert.deepStrictEqual(calls[1].arguments[0], null);
+      assert.deepStrictEqual(calls[1].arguments[1], output);
+      assert.deepStrictEqual(instance.bufferStats(), {
+        currentSize: 0,
+        discardedBytes: segments.length,
+        overflows: 1,
+      });
+    });
+
     it('Throws error when telegram is invalid', async () => {
       const data = 'invalid telegram xxx yyy';
       assert.ok(data.length > HDLC_HEADER_LENGTH);
@@ -310,4 +377,29 @@ describe('Stream DLMS', async () => {
       assert.deepStrictEqual(callback.mock.calls[0].arguments[2], input);
     });
   });
+
+  it('Uses a custom COSEM library', async () => {
+    const { input } = await readDlmsTelegramFromFiles('./tests/telegrams/dlms/aidon-example-2');
+
+    const stream = new PassThrough();
+    const callback = mock.fn();
+    const cosemLibrary = CosemLibrary.extend().addNumberParser(
+      '1-0:1.7.0',
+      ({ valueNumber, result }) => {
+        result.metadata.numericMessage = valueNumber;
+      },
+    );
+
+    const instance = new DlmsStreamParser({ stream, callback, cosemLibrary });
+
+    stream.write(input);
+    stream.end();
+    instance.destroy();
+
+    assert.equal(callback.mock.calls.length, 1);
+    const result = callback.mock.calls[0].arguments[1] as HdlcParserResult;
+
+    assert.equal(result.metadata.numericMessage, 1122);
+    assert.equal(result.electricity.powerReceivedTotal, undefined);
+  });
 });
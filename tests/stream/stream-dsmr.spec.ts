@@ -16,8 +16,15 @@ import {
   SmartMeterParserResult,
   UnencryptedDSMRStreamParser,
   EncryptedDSMRStreamParser,
+  SmartMeterReplayError,
+  SmartMeterReplayGuard,
+  SmartMeterKeyRing,
+  SmartMeterDecodeError,
+  SmartMeterBufferOverflowError,
+  SmartMeterError,
 } from '../../src/index.js';
 import {
+  ENCRYPTED_DLMS_ENCRYPTION_TAG,
   ENCRYPTED_DLMS_HEADER_LEN,
   ENCRYPTED_DLMS_TELEGRAM_SOF,
 } from '../../src/protocols/encryption.js';
@@ -33,10 +40,17 @@ const assertDecryptedFrameValid = ({
 }) => {
   const parsed = actual as SmartMeterParserResult;
   assert.equal(parsed.additionalAuthenticatedDataValid, aadValid);
+  assert.deepStrictEqual(parsed.encryption, {
+    systemTitle: Buffer.from('systitle', 'ascii').toString('hex'),
+    frameCounter: 0x11223344,
+    securityType: 0x30,
+    authenticated: aadValid,
+  });
 
-  // Note: this field is not in the output, because the output was not created with encryption enabled.
-  // Thus, it is deleted here.
+  // Note: these fields are not in the output, because the output was not created with encryption
+  // enabled. Thus, they are deleted here.
   delete parsed.additionalAuthenticatedDataValid;
+  delete parsed.encryption;
 
   assert.deepStrictEqual(JSON.parse(JSON.stringify(parsed)), expected);
 };
@@ -124,6 +138,52 @@ describe('DSMRStreamParser', () => {
       assert.equal(callback.mock.calls[0].arguments[2], undefined);
     });
 
+    it('Discards data up to the next start of frame when the buffer overflows', async () => {
+      const { input, output } = await readDsmrTelegramFromFiles(
+        './tests/telegrams/dsmr/dsmr-5.0-spec-example',
+      );
+
+      const stream = new PassThrough();
+      const callback = mock.fn();
+
+      const instance = new UnencryptedDSMRStreamParser({ stream, callback, maxBufferSize: 1024 });
+
+      // The start of frame characters in the noise are not at the start of a line.
+      const noise = '/' + 'ab/'.repeat(700) + '\r\n';
+      stream.write(noise + input.slice(0, 100));
+      stream.write(input.slice(100));
+
+      stream.end();
+      instance.destroy();
+
+      assert.deepStrictEqual(callback.mock.calls.length, 2);
+      assert.ok(callback.mock.calls[0].arguments[0] instanceof SmartMeterBufferOverflowError);
+      assert.deepStrictEqual(callback.mock.calls[0].arguments[0].rawTelegram, Buffer.from(noise));
+      assert.deepStrictEqual(callback.mock.calls[1].arguments[0], null);
+      assert.deepStrictEqual(
+        JSON.parse(JSON.stringify(callback.mock.calls[1].arguments[1])),
+        output,
+      );
+      assert.deepStrictEqual(callback.mock.calls[1].arguments[2], Buffer.from(input));
+      assert.deepStrictEqual(instance.bufferStats(), {
+        currentSize: 0,
+        discardedBytes: noise.length,
+        overflows: 1,
+      });
+    });
+
+    it('Throws an error on an invalid timezone when it is created', () => {
+      assert.throws(
+        () =>
+          new UnencryptedDSMRStreamParser({
+            stream: new PassThrough(),
+            callback: mock.fn(),
+            timezone: 'Invalid/Timezone',
+          }),
+        SmartMeterError,
+      );
+    });
+
     it("Doesn't throw error after receiving null character", async () => {
       // Note: some meters send a null character (\0) at the end of the telegram. This should be ignored.
       const { input, output } = await readDsmrTelegramFromFiles(
@@ -453,6 +513,174 @@ describe('DSMRStreamParser', () => {
       assert.deepStrictEqual(callback.mock.calls[1].arguments[2], encrypted2);
     });
 
+    it('Picks the matching key of a key ring', async () => {
+      const { input, output } = await readDsmrTelegramFromFiles(
+        './tests/telegrams/dsmr/dsmr-5.0-spec-example',
+      );
+      const encrypted = encryptFrame({ frame: input, key: TEST_DECRYPTION_KEY, aad: TEST_AAD });
+
+      const stream = new PassThrough();
+      const callback = mock.fn();
+      const lookup = mock.fn((_systemTitle: string) => [
+        { id: 'other', key: Buffer.from('other-key1234567', 'ascii') },
+        { id: 'meter', key: TEST_DECRYPTION_KEY },
+      ]);
+      const keyRing = new SmartMeterKeyRing(lookup);
+      const getCandidates = mock.method(keyRing, 'getCandidates');
+
+      const instance = new EncryptedDSMRStreamParser({
+        stream,
+        callback,
+        keyRing,
+        authenticationKey: TEST_AAD,
+      });
+
+      stream.write(Buffer.concat([encrypted, encrypted]));
+
+      stream.end();
+      instance.destroy();
+
+      assert.deepStrictEqual(callback.mock.calls.length, 2);
+      assert.deepStrictEqual(lookup.mock.calls[0].arguments, [
+        Buffer.from('systitle', 'ascii').toString('hex'),
+      ]);
+
+      // The matching key is remembered and tried first for the next telegram.
+      assert.deepStrictEqual(
+        getCandidates.mock.calls.map((call) => call.result?.map(({ id }) => id)),
+        [
+          ['other', 'meter'],
+          ['meter', 'other'],
+        ],
+      );
+
+      for (const call of callback.mock.calls) {
+        assert.deepStrictEqual(call.arguments[0], null);
+
+        const result = call.arguments[1] as SmartMeterParserResult;
+        assert.equal(result.encryption?.keyId, 'meter');
+        delete result.encryption?.keyId;
+
+        assertDecryptedFrameValid({ actual: result, expected: output, aadValid: true });
+      }
+    });
+
+    it('Does not report the key of a frame without a GCM tag', async () => {
+      const { input } = await readDsmrTelegramFromFiles(
+        './tests/telegrams/dsmr/dsmr-5.0-spec-example',
+      );
+      const encrypted = encryptFrame({
+        frame: input,
+        key: TEST_DECRYPTION_KEY,
+        securityType: ENCRYPTED_DLMS_ENCRYPTION_TAG,
+      });
+
+      const stream = new PassThrough();
+      const callback = mock.fn();
+
+      const instance = new EncryptedDSMRStreamParser({
+        stream,
+        callback,
+        keyRing: new SmartMeterKeyRing([{ id: 'meter', key: TEST_DECRYPTION_KEY }]),
+      });
+
+      stream.write(encrypted);
+
+      stream.end();
+      instance.destroy();
+
+      assert.deepStrictEqual(callback.mock.calls.length, 1);
+      assert.deepStrictEqual(callback.mock.calls[0].arguments[0], null);
+
+      const result = callback.mock.calls[0].arguments[1] as SmartMeterParserResult;
+      assert.deepStrictEqual(result.encryption, {
+        systemTitle: Buffer.from('systitle', 'ascii').toString('hex'),
+        frameCounter: 0x11223344,
+        securityType: ENCRYPTED_DLMS_ENCRYPTION_TAG,
+      });
+      assert.equal(result.additionalAuthenticatedDataValid, undefined);
+    });
+
+    it('Rejects replayed telegrams', async () => {
+      const { input } = await readDsmrTelegramFromFiles(
+        './tests/telegrams/dsmr/dsmr-5.0-spec-example',
+      );
+      const encryptWithFrameCounter = (frameCounter: number) =>
+        encryptFrame({
+          frame: input,
+          key: TEST_DECRYPTION_KEY,
+          aad: TEST_AAD,
+          frameCounter: Buffer.from(frameCounter.toString(16).padStart(8, '0'), 'hex'),
+        });
+
+      const stream = new PassThrough();
+      const callback = mock.fn();
+      const store = new Map<string, number>();
+
+      const instance = new EncryptedDSMRStreamParser({
+        stream,
+        callback,
+        decryptionKey: TEST_DECRYPTION_KEY,
+        additionalAuthenticatedData: TEST_AAD,
+        replayGuard: new SmartMeterReplayGuard(store),
+      });
+
+      stream.write(encryptWithFrameCounter(1));
+      stream.write(encryptWithFrameCounter(2));
+      stream.write(encryptWithFrameCounter(2));
+      stream.write(encryptWithFrameCounter(1));
+      stream.write(encryptWithFrameCounter(3));
+
+      stream.end();
+      instance.destroy();
+
+      const errors = callback.mock.calls.map((call) => call.arguments[0] as Error | null);
+      assert.equal(errors.length, 5);
+      assert.deepStrictEqual(errors[0], null);
+      assert.deepStrictEqual(errors[1], null);
+      assert.ok(errors[2] instanceof SmartMeterReplayError);
+      assert.ok(errors[3] instanceof SmartMeterReplayError);
+      assert.deepStrictEqual(errors[4], null);
+      assert.deepStrictEqual([...store.entries()], [[Buffer.from('systitle').toString('hex'), 3]]);
+    });
+
+    it('Does not remember the frame counter of frames without a GCM tag', async () => {
+      const { input } = await readDsmrTelegramFromFiles(
+        './tests/telegrams/dsmr/dsmr-5.0-spec-example',
+      );
+      const encryptWithFrameCounter = (frameCounter: number, securityType?: number) =>
+        encryptFrame({
+          frame: input,
+          key: TEST_DECRYPTION_KEY,
+          aad: TEST_AAD,
+          frameCounter: Buffer.from(frameCounter.toString(16).padStart(8, '0'), 'hex'),
+          securityType,
+        });
+
+      const stream = new PassThrough();
+      const callback = mock.fn();
+      const store = new Map<string, number>();
+
+      const instance = new EncryptedDSMRStreamParser({
+        stream,
+        callback,
+        decryptionKey: TEST_DECRYPTION_KEY,
+        additionalAuthenticatedData: TEST_AAD,
+        replayGuard: new SmartMeterReplayGuard(store),
+      });
+
+      stream.write(encryptWithFrameCounter(1));
+      stream.write(encryptWithFrameCounter(5, ENCRYPTED_DLMS_ENCRYPTION_TAG));
+      stream.write(encryptWithFrameCounter(2));
+
+      stream.end();
+      instance.destroy();
+
+      const errors = callback.mock.calls.map((call) => call.arguments[0] as Error | null);
+      assert.deepStrictEqual(errors, [null, null, null]);
+      assert.deepStrictEqual([...store.entries()], [[Buffer.from('systitle').toString('hex'), 2]]);
+    });
+
     it('Throws error when telegram is invalid', async () => {
       const stream = new PassThrough();
       const callback = mock.fn();
@@ -538,6 +766,80 @@ describe('DSMRStreamParser', () => {
       instance.destroy();
     });
 
+    it('Reports a single error for a long run of start of frame bytes', async () => {
+      const { input, output } = await readDsmrTelegramFromFiles(
+        './tests/telegrams/dsmr/dsmr-5.0-spec-example',
+      );
+      const encrypted = encryptFrame({ frame: input, key: TEST_DECRYPTION_KEY, aad: TEST_AAD });
+      const noise = Buffer.alloc(20000, ENCRYPTED_DLMS_TELEGRAM_SOF);
+
+      const stream = new PassThrough();
+      const callback = mock.fn();
+
+      const instance = new EncryptedDSMRStreamParser({
+        stream,
+        callback,
+        decryptionKey: TEST_DECRYPTION_KEY,
+        additionalAuthenticatedData: TEST_AAD,
+      });
+
+      stream.write(Buffer.concat([noise, encrypted]));
+
+      stream.end();
+      instance.destroy();
+      assert.deepStrictEqual(callback.mock.calls.length, 2);
+      assert.ok(callback.mock.calls[0].arguments[0] instanceof SmartMeterDecodeError);
+      assert.deepStrictEqual(
+        callback.mock.calls[0].arguments[0].message,
+        'Invalid system title length 0xdb',
+      );
+      assert.deepStrictEqual(callback.mock.calls[1].arguments[0], null);
+      assertDecryptedFrameValid({
+        actual: callback.mock.calls[1].arguments[1],
+        expected: output,
+        aadValid: true,
+      });
+      assert.deepStrictEqual(callback.mock.calls[1].arguments[2], encrypted);
+    });
+
+    it('Throws an error if the frame exceeds the maximum frame size', async () => {
+      const { input } = await readDsmrTelegramFromFiles(
+        './tests/telegrams/dsmr/dsmr-5.0-spec-example',
+      );
+      const encrypted = encryptFrame({ frame: input, key: TEST_DECRYPTION_KEY, aad: TEST_AAD });
+
+      const stream = new PassThrough();
+      const callback = mock.fn();
+
+      const instance = new EncryptedDSMRStreamParser({
+        stream,
+        callback,
+        decryptionKey: TEST_DECRYPTION_KEY,
+        additionalAuthenticatedData: TEST_AAD,
+        maxFrameSize: encrypted.length - 1,
+      });
+
+      const header = encrypted.subarray(0, ENCRYPTED_DLMS_HEADER_LEN);
+      stream.write(header);
+
+      assert.equal(callback.mock.calls.length, 1);
+      assert.ok(callback.mock.calls[0].arguments[0] instanceof SmartMeterDecodeError);
+      assert.equal(
+        callback.mock.calls[0].arguments[0].message,
+        `Frame length ${encrypted.length} exceeds the maximum frame size ${encrypted.length - 1}`,
+      );
+      assert.deepStrictEqual(callback.mock.calls[0].arguments[0].rawTelegram, header);
+      assert.equal(callback.mock.calls[0].arguments[1], undefined);
+      assert.deepStrictEqual(instance.bufferStats(), {
+        currentSize: 0,
+        discardedBytes: header.length,
+        overflows: 1,
+      });
+
+      stream.end();
+      instance.destroy();
+    });
+
     it('Throws an error if key is invalid', async () => {
       const stream = new PassThrough();
       const callback = mock.fn();
@@ -0,0 +1,257 @@
+import assert from 'node:assert';
+import { PassThrough } from 'node:stream';
+import { describe, it, mock } from 'node:test';
+
+import {
+  chunkBuffer,
+  MBUS_TEST_DECRYPTION_KEY,
+  MBUS_TEST_FOLDER,
+  readDlmsTelegramFromFiles,
+} from '../test-utils.js';
+import {
+  CrcPolicy,
+  MbusStreamParser,
+  SmartMeterBufferOverflowError,
+  SmartMeterCrcError,
+  SmartMeterDecodeError,
+  SmartMeterDecryptionRequired,
+  SmartMeterTimeoutError,
+  SmartMeterUnknownMessageTypeError,
+  StartOfFrameNotFoundError,
+} from '../../src/index.js';
+import { MBUS_LONG_FRAME_SOF, MbusParserResult } from '../../src/protocols/mbus.js';
+
+describe('Stream M-Bus', () => {
+  const testMbusStreamParser = (input: Buffer[], decryptionKey?: Buffer, crcPolicy?: CrcPolicy) => {
+    const stream = new PassThrough();
+    const callback = mock.fn();
+
+    const instance = new MbusStreamParser({
+      stream,
+      callback,
+      decryptionKey,
+      crcPolicy,
+    });
+
+    for (const chunk of input) {
+      stream.write(chunk);
+    }
+
+    stream.end();
+    instance.destroy();
+
+    return callback.mock.calls;
+  };
+
+  it('Parses an encrypted telegram split over two frames', async () => {
+    const { input, output } = await readDlmsTelegramFromFiles(
+      `${MBUS_TEST_FOLDER}/austria-example-1`,
+    );
+
+    const calls = testMbusStreamParser([input], MBUS_TEST_DECRYPTION_KEY);
+
+    assert.deepStrictEqual(calls.length, 1);
+    assert.deepStrictEqual(calls[0].arguments[0], null);
+    assert.deepStrictEqual(calls[0].arguments[1], output);
+    assert.deepStrictEqual(calls[0].arguments[2], input);
+  });
+
+  it('Parses a chunked telegram', async () => {
+    const { input, output } = await readDlmsTelegramFromFiles(
+      `${MBUS_TEST_FOLDER}/austria-example-1`,
+    );
+
+    const calls = testMbusStreamParser(chunkBuffer(input, 10), MBUS_TEST_DECRYPTION_KEY);
+
+    assert.deepStrictEqual(calls.length, 1);
+    assert.deepStrictEqual(calls[0].arguments[0], null);
+    assert.deepStrictEqual(calls[0].arguments[1], output);
+    assert.deepStrictEqual(calls[0].arguments[2], input);
+  });
+
+  it('Parses two telegrams', async () => {
+    const { input, output } = await readDlmsTelegramFromFiles(
+      `${MBUS_TEST_FOLDER}/austria-example-1`,
+    );
+
+    const calls = testMbusStreamParser([Buffer.concat([input, input])], MBUS_TEST_DECRYPTION_KEY);
+
+    assert.deepStrictEqual(calls.length, 2);
+    for (const call of calls) {
+      assert.deepStrictEqual(call.arguments[0], null);
+      assert.deepStrictEqual(call.arguments[1], output);
+      assert.deepStrictEqual(call.arguments[2], input);
+    }
+  });
+
+  it('Reports a single error for a long run of start of frame bytes', async () => {
+    const { input, output } = await readDlmsTelegramFromFiles(
+      `${MBUS_TEST_FOLDER}/austria-example-1`,
+    );
+    const noise = Buffer.alloc(20000, MBUS_LONG_FRAME_SOF);
+
+    const calls = testMbusStreamParser([Buffer.concat([noise, input])], MBUS_TEST_DECRYPTION_KEY);
+
+    assert.deepStrictEqual(calls.length, 2);
+    assert.ok(calls[0].arguments[0] instanceof SmartMeterUnknownMessageTypeError);
+    assert.deepStrictEqual(calls[0].arguments[0].message, 'Invalid control information 0x68');
+    assert.deepStrictEqual(calls[1].arguments[0], null);
+    assert.deepStrictEqual(calls[1].arguments[1], output);
+    assert.deepStrictEqual(calls[1].arguments[2], input);
+  });
+
+  it('Marks invalid checksums', async () => {
+    const { input } = await readDlmsTelegramFromFiles(`${MBUS_TEST_FOLDER}/austria-example-1`);
+
+    const corrupted = Buffer.from(input);
+    const firstFrameLength = corrupted[1] + 6;
+    corrupted[firstFrameLength - 2] ^= 0xff;
+
+    const calls = testMbusStreamParser([corrupted], MBUS_TEST_DECRYPTION_KEY);
+
+    assert.deepStrictEqual(calls.length, 1);
+    assert.deepStrictEqual(calls[0].arguments[0], null);
+
+    const result = calls[0].arguments[1] as MbusParserResult;
+    assert.equal(result.crcValid, false);
+    assert.deepStrictEqual(result.diagnostics, [
+      { type: 'crc', message: 'Invalid checksum in frame 0', frame: 0 },
+    ]);
+  });
+
+  it('Rejects invalid checksums with the strict CRC policy', async () => {
+    const { input } = await readDlmsTelegramFromFiles(`${MBUS_TEST_FOLDER}/austria-example-1`);
+
+    const corrupted = Buffer.from(input);
+    const firstFrameLength = corrupted[1] + 6;
+    corrupted[firstFrameLength - 2] ^= 0xff;
+
+    const calls = testMbusStreamParser([corrupted], MBUS_TEST_DECRYPTION_KEY, 'strict');
+
+    assert.deepStrictEqual(calls.length, 1);
+    assert.ok(calls[0].arguments[0] instanceof SmartMeterCrcError);
+    assert.deepStrictEqual(calls[0].arguments[0].rawTelegram, corrupted);
+  });
+
+  it('Rejects a segment with an unexpected sequence number', async () => {
+    const { input, output } = await readDlmsTelegramFromFiles(
+      `${MBUS_TEST_FOLDER}/austria-example-1`,
+    );
+
+    // Start with the first frame, followed by a full telegram of which the first frame is lost.
+    const firstFrameLength = input[1] + 6;
+    const firstFrame = input.subarray(0, firstFrameLength);
+    const secondFrame = input.subarray(firstFrameLength);
+
+    const calls = testMbusStreamParser(
+      [Buffer.concat([secondFrame, input])],
+      MBUS_TEST_DECRYPTION_KEY,
+    );
+
+    assert.deepStrictEqual(calls.length, 2);
+    assert.ok(calls[0].arguments[0] instanceof SmartMeterDecodeError);
+    assert.equal(calls[0].arguments[0].message, 'Invalid segment sequence number 1, expected 0');
+    assert.deepStrictEqual(calls[0].arguments[0].rawTelegram, secondFrame);
+    assert.deepStrictEqual(calls[1].arguments[0], null);
+    assert.deepStrictEqual(calls[1].arguments[1], output);
+
+    // A new telegram that starts while the previous one isn't complete yet is parsed as well.
+    const restartedCalls = testMbusStreamParser(
+      [Buffer.concat([firstFrame, input])],
+      MBUS_TEST_DECRYPTION_KEY,
+    );
+
+    assert.deepStrictEqual(restartedCalls.length, 2);
+    assert.ok(restartedCalls[0].arguments[0] instanceof SmartMeterDecodeError);
+    assert.deepStrictEqual(
+      restartedCalls[0].arguments[0].rawTelegram,
+      Buffer.concat([firstFrame, firstFrame]),
+    );
+    assert.deepStrictEqual(restartedCalls[1].arguments[0], null);
+    assert.deepStrictEqual(restartedCalls[1].arguments[2], input);
+  });
+
+  it('Discards the buffered frames when the buffer overflows', async () => {
+    const { input, output } = await readDlmsTelegramFromFiles(
+      `${MBUS_TEST_FOLDER}/austria-example-1`,
+    );
+
+    const firstFrameLength = input[1] + 6;
+    const stream = new PassThrough();
+    const callback = mock.fn();
+
+    const instance = new MbusStreamParser({
+      stream,
+      callback,
+      decryptionKey: MBUS_TEST_DECRYPTION_KEY,
+      maxBufferSize: firstFrameLength + 10,
+    });
+
+    // The second frame doesn't fit in the buffer anymore.
+    const partial = input.subarray(0, firstFrameLength + 20);
+    stream.write(partial);
+    stream.write(input);
+
+    stream.end();
+    instance.destroy();
+
+    const calls = callback.mock.calls;
+    assert.deepStrictEqual(calls.length, 2);
+    assert.ok(calls[0].arguments[0] instanceof SmartMeterBufferOverflowError);
+    assert.deepStrictEqual(calls[0].arguments[0].rawTelegram, partial);
+    assert.deepStrictEqual(calls[1].arguments[0], null);
+    assert.deepStrictEqual(calls[1].arguments[1], output);
+    assert.deepStrictEqual(instance.bufferStats(), {
+      currentSize: 0,
+      discardedBytes: partial.length,
+      overflows: 1,
+    });
+  });
+
+  it('Throws error when decryption key is missing', async () => {
+    const { input } = await readDlmsTelegramFromFiles(`${MBUS_TEST_FOLDER}/austria-example-1`);
+
+    const calls = testMbusStreamParser([input]);
+
+    assert.equal(calls.length, 1);
+    assert.ok(calls[0].arguments[0] instanceof SmartMeterDecryptionRequired);
+    assert.equal(calls[0].arguments[1], undefined);
+    assert.equal(calls[0].arguments[2], undefined);
+  });
+
+  it('Throws error when telegram is invalid', async () => {
+    const calls = testMbusStreamParser([Buffer.from('invalid telegram xxx yyy')]);
+
+    assert.equal(calls.length, 1);
+    assert.ok(calls[0].arguments[0] instanceof StartOfFrameNotFoundError);
+    assert.equal(calls[0].arguments[1], undefined);
+    assert.equal(calls[0].arguments[2], undefined);
+  });
+
+  it('Throws error if a full frame is not received in time', async (context) => {
+    context.mock.timers.enable();
+
+    const fullFrameRequiredWithinMs = 5000;
+
+    const stream = new PassThrough();
+    const callback = mock.fn();
+
+    const instance = new MbusStreamParser({
+      stream,
+      callback,
+      fullFrameRequiredWithinMs,
+    });
+
+    stream.write(Buffer.from([MBUS_LONG_FRAME_SOF])); // Start by writing the start of the telegram
+
+    context.mock.timers.tick(fullFrameRequiredWithinMs);
+
+    assert.equal(callback.mock.calls.length, 1);
+    assert.ok(callback.mock.calls[0].arguments[0] instanceof SmartMeterTimeoutError);
+    assert.equal(callback.mock.calls[0].arguments[1], undefined);
+    assert.equal(callback.mock.calls[0].arguments[2], undefined);
+    assert.equal(instance.currentSize(), 0);
+
+    instance.destroy();
+  });
+});
@@ -0,0 +1,153 @@
+import assert from 'node:assert';
+import { Readable, Writable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import { describe, it } from 'node:test';
+import {
+  chunkBuffer,
+  MBUS_TEST_DECRYPTION_KEY,
+  MBUS_TEST_FOLDER,
+  readDlmsTelegramFromFiles,
+  readDsmrTelegramFromFiles,
+} from './../test-utils.js';
+import {
+  createDlmsTransform,
+  createDsmrTransform,
+  createMbusTransform,
+  SmartMeterCrcError,
+  SmartMeterTelegram,
+  SmartMeterTimeoutError,
+  StartOfFrameNotFoundError,
+} from '../../src/index.js';
+
+describe('Stream: Transform', () => {
+  const collect = (telegrams: SmartMeterTelegram[]) =>
+    new Writable({
+      objectMode: true,
+      write(telegram: SmartMeterTelegram, _encoding, callback) {
+        telegrams.push(telegram);
+        callback();
+      },
+    });
+
+  it('Parses DSMR telegrams in a pipeline', async () => {
+    const { input, output } = await readDsmrTelegramFromFiles(
+      './tests/telegrams/dsmr/dsmr-5.0-spec-example',
+    );
+    const telegram = Buffer.from(input);
+    const telegrams: SmartMeterTelegram[] = [];
+
+    await pipeline(
+      Readable.from(chunkBuffer(Buffer.concat([telegram, telegram]), 10)),
+      createDsmrTransform(),
+      collect(telegrams),
+    );
+
+    assert.equal(telegrams.length, 2);
+
+    for (const { result, raw } of telegrams) {
+      assert.deepStrictEqual(JSON.parse(JSON.stringify(result)), output);
+      assert.deepStrictEqual(raw, telegram);
+    }
+  });
+
+  it('Parses DLMS telegrams in a pipeline', async () => {
+    const { input, output } = await readDlmsTelegramFromFiles(
+      './tests/telegrams/dlms/aidon-example-2',
+    );
+    const telegrams: SmartMeterTelegram[] = [];
+
+    await pipeline(Readable.from([input]), createDlmsTransform(), collect(telegrams));
+
+    assert.equal(telegrams.length, 1);
+    assert.deepStrictEqual(telegrams[0].result, output);
+  });
+
+  it('Parses M-Bus telegrams in a pipeline', async () => {
+    const { input, output } = await readDlmsTelegramFromFiles(
+      `${MBUS_TEST_FOLDER}/austria-example-1`,
+    );
+    const telegrams: SmartMeterTelegram[] = [];
+
+    await pipeline(
+      Readable.from([input]),
+      createMbusTransform({ decryptionKey: MBUS_TEST_DECRYPTION_KEY }),
+      collect(telegrams),
+    );
+
+    assert.equal(telegrams.length, 1);
+    assert.deepStrictEqual(telegrams[0].result, output);
+  });
+
+  /** Returns the telegram with an invalid CRC, followed by the line ending of the CRC line */
+  const corruptCrc = (telegram: string) => {
+    return Buffer.from(`${telegram.replace(/!([0-9A-F]{4})/, '!0000')}\r\n`);
+  };
+
+  it('Propagates parse errors through the pipeline', async () => {
+    const { input } = await readDsmrTelegramFromFiles('./tests/telegrams/dsmr/dsmr-5.0-isk-1');
+
+    await assert.rejects(
+      pipeline(
+        Readable.from([corruptCrc(input)]),
+        createDsmrTransform({ crcPolicy: 'strict' }),
+        collect([]),
+      ),
+      SmartMeterCrcError,
+    );
+  });
+
+  it('Skips parse errors', async () => {
+    const { input } = await readDsmrTelegramFromFiles('./tests/telegrams/dsmr/dsmr-5.0-isk-1');
+    const telegrams: SmartMeterTelegram[] = [];
+
+    await pipeline(
+      Readable.from([corruptCrc(input), Buffer.from(`${input}\r\n`)]),
+      createDsmrTransform({ crcPolicy: 'strict', skipErrors: true }),
+      collect(telegrams),
+    );
+
+    assert.equal(telegrams.length, 1);
+  });
+
+  it('Emits a warning when the start of a frame is not found', async () => {
+    const { input } = await readDsmrTelegramFromFiles(
+      './tests/telegrams/dsmr/dsmr-5.0-spec-example',
+    );
+    const telegrams: SmartMeterTelegram[] = [];
+    const warnings: Error[] = [];
+    const transform = createDsmrTransform();
+
+    transform.on('warning', (error: Error) => warnings.push(error));
+
+    await pipeline(
+      Readable.from([Buffer.from('invalid'), Buffer.from(input)]),
+      transform,
+      collect(telegrams),
+    );
+
+    assert.equal(telegrams.length, 1);
+    assert.equal(warnings.length, 1);
+    assert.ok(warnings[0] instanceof StartOfFrameNotFoundError);
+  });
+
+  it('Emits a warning if a full frame is not received in time', async (context) => {
+    context.mock.timers.enable({ apis: ['setTimeout'] });
+
+    const fullFrameRequiredWithinMs = 5000;
+    const transform = createDsmrTransform({ fullFrameRequiredWithinMs });
+    const warnings: Error[] = [];
+
+    transform.on('warning', (error: Error) => warnings.push(error));
+    transform.write(Buffer.from('/')); // Start by writing the start of the telegram
+    await new Promise((resolve) => setImmediate(resolve));
+
+    context.mock.timers.tick(fullFrameRequiredWithinMs);
+    await new Promise((resolve) => setImmediate(resolve));
+
+    assert.equal(warnings.length, 1);
+    assert.ok(warnings[0] instanceof SmartMeterTimeoutError);
+    assert.equal(transform.destroyed, false);
+
+    transform.destroy();
+  });
+});
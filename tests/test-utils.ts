@@ -1,18 +1,14 @@
-import crypto from 'node:crypto';
 import { promises as fs } from 'node:fs';
-import {
-  ENCRYPTED_DLMS_GCM_TAG_LEN,
-  ENCRYPTED_DLMS_HEADER_LEN,
-  ENCRYPTED_DLMS_SYSTEM_TITLE_LEN,
-  ENCRYPTED_DLMS_TELEGRAM_SOF,
-} from '../src/protocols/encryption.js';
-import { HDLC_TELEGRAM_SOF_EOF, HDLC_FORMAT_START } from '../src/protocols/hdlc.js';
-import { calculateCrc16IbmSdlc } from '../src/util/crc.js';
+import { encryptDlmsFrame } from '../src/protocols/encryption.js';
+import { encodeHdlcFrame } from '../src/protocols/hdlc.js';
 
 export const TEST_DECRYPTION_KEY = Buffer.from('0123456789abcdef0123456789abcdef', 'hex');
 export const TEST_AAD = Buffer.from('ffeeddccbbaa99887766554433221100', 'hex');
+/** Key of the encrypted Austrian M-Bus test telegrams (see {@link MBUS_TEST_FOLDER}) */
+export const MBUS_TEST_DECRYPTION_KEY = Buffer.from('36C66639E48A8CA4D6BC8B282A793BBB', 'hex');
 export const DSMR_TEST_FOLDER = './tests/telegrams/dsmr';
 export const DLMS_TEST_FOLDER = './tests/telegrams/dlms';
+export const MBUS_TEST_FOLDER = './tests/telegrams/m-bus';
 
 export const getAllDSMRTestTelegramTestCases = async () => {
   const files = await fs.readdir(DSMR_TEST_FOLDER);
@@ -34,13 +30,22 @@ export const readDsmrTelegramFromFiles = async (path: string) => {
   };
 };
 
+/** Restores the dates of a parse result that was serialized to JSON. */
+const reviveDates = (_key: string, value: unknown) => {
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z$/.test(value)) {
+    return new Date(value);
+  }
+
+  return value;
+};
+
 export const readDlmsTelegramFromFiles = async (path: string) => {
   const input = await readHexFile(`${path}.txt`);
   const output = await fs.readFile(`${path}.json`);
 
   return {
     input,
-    output: JSON.parse(output.toString()) as object,
+    output: JSON.parse(output.toString(), reviveDates) as object,
   };
 };
 
@@ -101,50 +106,7 @@ export const bufferToHexString = (buffer: Buffer) => {
 };
 
 export const wrapHdlcFrame = (frame: Buffer, isSegmented = false) => {
-  const hdlcHeader = Buffer.from([
-    HDLC_TELEGRAM_SOF_EOF, // 0: SOF
-    0x00, // 1: Format type + length
-    0x00, // 2: Length
-    0x03, // 3: Destination address,
-    0x05, // 4: Source Address,
-    0x00, // 5: Control byte,
-    0x00, // 6: Checksum
-    0x00, // 7: Checksum,
-  ]);
-
-  const hdlcFooter = Buffer.from([
-    0x00, // Checksum
-    0x00, // Checksum
-    HDLC_TELEGRAM_SOF_EOF,
-  ]);
-
-  // Frame length is total length - 2 (SOF and EOF)
-  const frameLength = frame.length + hdlcHeader.length + hdlcFooter.length - 2;
-
-  if (frameLength > 0x7ff) {
-    throw new Error('Frame length is too long to fit in HDLC');
-  }
-
-  hdlcHeader[1] = (HDLC_FORMAT_START << 4) | ((frameLength >> 8) & 0x07);
-  hdlcHeader[2] = frameLength & 0xff;
-
-  if (isSegmented) {
-    hdlcHeader[1] |= 0x08; // Set segmentation bit
-  }
-
-  // Don't include SOF in the checksum calculation
-  const headerChecksum = calculateCrc16IbmSdlc(hdlcHeader.subarray(1, 6));
-
-  hdlcHeader.writeUint16LE(headerChecksum, 6);
-
-  const frameUntilFooter = Buffer.concat([hdlcHeader, frame]);
-
-  // Don't include SOF in the checksum calculation
-  const footerChecksum = calculateCrc16IbmSdlc(frameUntilFooter.subarray(1));
-
-  hdlcFooter.writeUint16LE(footerChecksum, 0);
-
-  return Buffer.concat([frameUntilFooter, hdlcFooter]);
+  return encodeHdlcFrame({ content: frame, segmentation: isSegmented });
 };
 
 export const encryptFrame = ({
@@ -154,6 +116,7 @@ export const encryptFrame = ({
   systemTitle,
   frameCounter,
   frameStringEncoding,
+  securityType,
 }: {
   frame: Buffer | string;
   key: Buffer;
@@ -161,48 +124,18 @@ export const encryptFrame = ({
   systemTitle?: Buffer;
   frameCounter?: Buffer;
   frameStringEncoding?: BufferEncoding;
+  securityType?: number;
 }) => {
   frame = Buffer.isBuffer(frame) ? frame : Buffer.from(frame, frameStringEncoding ?? 'utf-8');
-  systemTitle ??= Buffer.from('systitle', 'ascii');
-  // Note: for reproducing the same frame, the frame counter is always the same.
-  // Real meters will change this every frame.
-  frameCounter ??= Buffer.from('11223344', 'hex');
-
-  const iv = Buffer.concat([systemTitle, frameCounter]);
-  const cipher = crypto.createCipheriv('aes-128-gcm', key, iv, {
-    authTagLength: ENCRYPTED_DLMS_GCM_TAG_LEN,
-  });
 
-  if (aad?.length == 16) {
-    aad = Buffer.concat([Buffer.from([0x30]), aad]);
-  }
-
-  if (aad) {
-    cipher.setAAD(aad);
-  }
-
-  const encryptedFrame = Buffer.concat([cipher.update(frame), cipher.final()]);
-  const gcmTag = cipher.getAuthTag();
-
-  const result = Buffer.alloc(
-    ENCRYPTED_DLMS_HEADER_LEN + encryptedFrame.length + ENCRYPTED_DLMS_GCM_TAG_LEN,
-  );
-
-  let index = 0;
-  result.writeUint8(ENCRYPTED_DLMS_TELEGRAM_SOF, index++);
-  result.writeUint8(ENCRYPTED_DLMS_SYSTEM_TITLE_LEN, index++);
-  systemTitle.copy(result, index);
-  index += ENCRYPTED_DLMS_SYSTEM_TITLE_LEN;
-  // 0x82 is indicating that a 16 byte length follows.
-  result.writeUInt8(0x82, index++);
-  result.writeUint16BE(encryptedFrame.length + ENCRYPTED_DLMS_HEADER_LEN - 1, index);
-  index += 2;
-  result.writeUInt8(0x30, index++);
-  frameCounter.copy(result, index);
-  index += 4;
-  encryptedFrame.copy(result, index);
-  index += encryptedFrame.length;
-  gcmTag.copy(result, index);
-
-  return result;
+  return encryptDlmsFrame({
+    data: frame,
+    key,
+    additionalAuthenticatedData: aad,
+    systemTitle: systemTitle ?? Buffer.from('systitle', 'ascii'),
+    // Note: for reproducing the same frame, the frame counter is always the same.
+    // Real meters will change this every frame.
+    frameCounter: frameCounter ?? Buffer.from('11223344', 'hex'),
+    securityType,
+  });
 };
@@ -0,0 +1,51 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import {
+  FrameCounterStore,
+  SmartMeterReplayError,
+  SmartMeterReplayGuard,
+} from '../../src/index.js';
+
+describe('Replay guard', () => {
+  const systemTitle = Buffer.from('systitle').toString('hex');
+
+  it('Rejects frame counters that did not increase', () => {
+    const guard = new SmartMeterReplayGuard();
+
+    guard.check({ systemTitle, frameCounter: 1 });
+    guard.accept({ systemTitle, frameCounter: 1 });
+
+    assert.throws(() => guard.check({ systemTitle, frameCounter: 1 }), SmartMeterReplayError);
+    guard.check({ systemTitle, frameCounter: 2 });
+  });
+
+  it('Loads and flushes the frame counters of an asynchronous store', async () => {
+    // Stand-in for a file or database
+    let persisted = JSON.stringify({ [systemTitle]: 5 });
+
+    class FileStore extends Map<string, number> implements FrameCounterStore {
+      async load() {
+        const frameCounters = await Promise.resolve(JSON.parse(persisted) as object);
+
+        for (const [key, value] of Object.entries(frameCounters)) {
+          this.set(key, value as number);
+        }
+      }
+
+      async flush() {
+        persisted = await Promise.resolve(JSON.stringify(Object.fromEntries(this)));
+      }
+    }
+
+    const guard = new SmartMeterReplayGuard(new FileStore());
+    await guard.load();
+
+    assert.throws(() => guard.check({ systemTitle, frameCounter: 5 }), SmartMeterReplayError);
+    guard.check({ systemTitle, frameCounter: 6 });
+    guard.accept({ systemTitle, frameCounter: 6 });
+
+    await guard.flush();
+
+    assert.deepStrictEqual(JSON.parse(persisted), { [systemTitle]: 6 });
+  });
+});
@@ -104,17 +104,18 @@ const result: HdlcParserResult = {
   // DLMS properties will be filled in by `decodeDlmsObis`
   dlms: {
     invokeId: 0,
-    timestamp: '',
     unknownObjects: [],
     payloadType: '',
   },
   cosem: {
     unknownObjects: [],
     knownObjects: [],
+    objects: {},
   },
   electricity: {},
   mBus: {},
   metadata: {},
+  diagnostics: [],
 };
 
 decodeDlmsObis(dlmsContent, result);
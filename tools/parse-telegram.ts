@@ -4,12 +4,12 @@ import { promises as fs } from 'node:fs';
 import path from 'node:path';
 import { PassThrough } from 'node:stream';
 
-import { SmartMeterDecryptionError, SmartMeterError } from '../src/index.js';
-import { SmartMeterDetectTypeStream } from '../src/stream/stream-detect-type.js';
-import { DlmsStreamParser } from '../src/stream/stream-dlms.js';
-import { EncryptedDSMRStreamParser } from '../src/stream/stream-encrypted-dsmr.js';
-import { SmartMeterStreamCallback, SmartMeterStreamParser } from '../src/stream/stream.js';
-import { UnencryptedDSMRStreamParser } from '../src/stream/stream-unencrypted-dsmr.js';
+import {
+  AutoSmartMeterStreamParser,
+  SmartMeterDecryptionError,
+  SmartMeterError,
+} from '../src/index.js';
+import { SmartMeterStreamCallback } from '../src/stream/stream.js';
 
 const filePath = process.argv[2];
 
@@ -40,35 +40,6 @@ if (isHexFile) {
 
 const passthrough = new PassThrough();
 
-const waitForFrameDetection = () => {
-  return new Promise<{
-    mode: 'dsmr' | 'dlms';
-    encrypted: boolean;
-    data: Buffer;
-  }>((resolve) => {
-    const detector = new SmartMeterDetectTypeStream({
-      stream: passthrough,
-      callback: (result) => {
-        detector.destroy();
-        resolve(result);
-      },
-    });
-
-    passthrough.write(file);
-  });
-};
-
-const { mode, encrypted, data } = await waitForFrameDetection();
-
-console.log('Detected frame:');
-console.log(` - Mode: ${mode}`);
-console.log(` - Encrypted: ${encrypted}`);
-
-if (encrypted && !decryptionKey) {
-  console.error('Decryption key is required for encrypted frames');
-  process.exit(1);
-}
-
 const callback: SmartMeterStreamCallback = (error, result) => {
   if (error instanceof SmartMeterDecryptionError) {
     console.error('Decryption error:', error.message);
@@ -89,37 +60,23 @@ const callback: SmartMeterStreamCallback = (error, result) => {
   }
 };
 
-let parser: SmartMeterStreamParser;
-
-if (mode === 'dlms' && !encrypted) {
-  parser = new DlmsStreamParser({
-    stream: passthrough,
-    callback,
-  });
-} else if (mode === 'dlms' && encrypted) {
-  parser = new DlmsStreamParser({
-    stream: passthrough,
-    callback,
-    decryptionKey: Buffer.from(decryptionKey, 'hex'),
-    additionalAuthenticatedData: aad ? Buffer.from(aad, 'hex') : undefined,
-  });
-} else if (mode === 'dsmr' && !encrypted) {
-  parser = new UnencryptedDSMRStreamParser({
-    stream: passthrough,
-    callback,
-  });
-} else if (mode === 'dsmr' && encrypted) {
-  parser = new EncryptedDSMRStreamParser({
-    stream: passthrough,
-    decryptionKey: Buffer.from(decryptionKey, 'hex'),
-    additionalAuthenticatedData: aad ? Buffer.from(aad, 'hex') : undefined,
-    callback,
-  });
-} else {
-  console.error('Unknown mode');
-  process.exit(1);
-}
+const parser = new AutoSmartMeterStreamParser({
+  stream: passthrough,
+  callback,
+  decryptionKey: decryptionKey ? Buffer.from(decryptionKey, 'hex') : undefined,
+  additionalAuthenticatedData: aad ? Buffer.from(aad, 'hex') : undefined,
+});
+
+parser.on('mode-change', ({ mode, encrypted }) => {
+  console.log('Detected frame:');
+  console.log(` - Mode: ${mode}`);
+  console.log(` - Encrypted: ${encrypted}`);
+
+  if (encrypted && !decryptionKey) {
+    console.error('Decryption key is required for encrypted frames');
+    process.exit(1);
+  }
+});
 
-passthrough.write(data);
-passthrough.end();
-parser.destroy();
+passthrough.on('end', () => parser.destroy());
+passthrough.end(file);
@@ -9,6 +9,8 @@ import {
   encryptFrame,
   getAllDLMSTestTelegramTestCases,
   getAllDSMRTestTelegramTestCases,
+  MBUS_TEST_DECRYPTION_KEY,
+  MBUS_TEST_FOLDER,
   readHexFile,
   TEST_AAD,
   TEST_DECRYPTION_KEY,
@@ -16,6 +18,7 @@ import {
   writeHexFile,
 } from '../tests/test-utils.js';
 import { DlmsStreamParser } from '../src/stream/stream-dlms.js';
+import { MbusStreamParser } from '../src/stream/stream-mbus.js';
 import { PassThrough } from 'stream';
 import { parseDsmr } from '../src/protocols/dsmr.js';
 import { decodeHdlcHeader, decodeLlcHeader, HDLC_FOOTER_LENGTH } from '../src/protocols/hdlc.js';
@@ -149,3 +152,41 @@ import { decodeHdlcHeader, decodeLlcHeader, HDLC_FOOTER_LENGTH } from '../src/pr
     frameWithoutAad,
   );
 }
+
+// Encrypted M-Bus telegrams
+{
+  const mbusFile = 'austria-example-1';
+  console.log(`Parsing ${mbusFile}.txt`);
+
+  const input = await readHexFile(`${MBUS_TEST_FOLDER}/${mbusFile}.txt`);
+  const passthrough = new PassThrough();
+  const results: object[] = [];
+
+  const parser = new MbusStreamParser({
+    stream: passthrough,
+    decryptionKey: MBUS_TEST_DECRYPTION_KEY,
+    callback: (error, result) => {
+      if (error) {
+        results.push({
+          error: {
+            message: error.message,
+            name: error.name,
+            stack: error.stack,
+          },
+        });
+      } else if (result) {
+        results.push(result);
+      }
+    },
+  });
+
+  await new Promise((resolve) => passthrough.write(input, resolve));
+
+  if (results.length !== 1) {
+    console.warn('Warning: more than one result found!');
+  }
+
+  const json = JSON.stringify(results[0], null, 2);
+  await fs.writeFile(`${MBUS_TEST_FOLDER}/${mbusFile}.json`, json);
+  parser.destroy();
+}